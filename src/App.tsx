@@ -1,5 +1,5 @@
 import { lazy, Suspense } from 'react';
-import { ThemeProvider } from './contexts/ThemeContext';
+import { ThemeProvider, useTheme } from './contexts/ThemeContext';
 import { motion, AnimatePresence } from 'framer-motion';
 import { LoadingSpinner } from './components/ui/loading-spinner';
 import { GlassCard } from './components/ui/GlassCard';
@@ -14,6 +14,23 @@ const AnimatedBackground = () => (
   </div>
 );
 
+// Goes through the theme context, so the palette's paired dark theme follows the toggle
+const DarkModeToggle = () => {
+  const { toggleDarkMode } = useTheme();
+  return (
+    <button
+      onClick={toggleDarkMode}
+      className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+      aria-label="Toggle dark mode"
+    >
+      <div className="w-5 h-5">
+        <SunIcon className="w-5 h-5 text-gray-600 dark:text-gray-300 transition-opacity duration-300 dark:opacity-0 absolute" />
+        <MoonIcon className="w-5 h-5 text-gray-600 dark:text-gray-300 transition-opacity duration-300 opacity-0 dark:opacity-100" />
+      </div>
+    </button>
+  );
+};
+
 function App() {
   return (
     <ThemeProvider>
@@ -33,16 +50,7 @@ function App() {
                   <h1 className="text-2xl font-bold bg-gradient-to-r from-indigo-600 via-purple-500 to-pink-500 bg-clip-text text-transparent">
                     Spectra
                   </h1>
-                  <button
-                    onClick={() => document.documentElement.classList.toggle('dark')}
-                    className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
-                    aria-label="Toggle dark mode"
-                  >
-                    <div className="w-5 h-5">
-                      <SunIcon className="w-5 h-5 text-gray-600 dark:text-gray-300 transition-opacity duration-300 dark:opacity-0 absolute" />
-                      <MoonIcon className="w-5 h-5 text-gray-600 dark:text-gray-300 transition-opacity duration-300 opacity-0 dark:opacity-100" />
-                    </div>
-                  </button>
+                  <DarkModeToggle />
                 </div>
               </div>
             </motion.header>
@@ -0,0 +1,120 @@
+import { useMemo, useState } from 'react';
+import { ArrowRightIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Button } from './ui/Button';
+import { cn } from '../lib/utils';
+import {
+  solveAccessiblePairs,
+  describeTarget,
+  DEFAULT_ROLE_PAIRS,
+  type ContrastTarget
+} from '../utils/accessiblePairs';
+import type { ColorPalette } from '../types';
+
+interface AccessibilityFixerProps {
+  palette: ColorPalette;
+  onApply: (palette: ColorPalette) => void;
+}
+
+type TargetKind = 'AA' | 'AAA' | 'APCA';
+
+const targetKinds: TargetKind[] = ['AA', 'AAA', 'APCA'];
+
+const roleLabels: Record<string, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  accent: 'Accent',
+  background: 'Background',
+  text: 'Text',
+};
+
+const AccessibilityFixer: React.FC<AccessibilityFixerProps> = ({ palette, onApply }) => {
+  const [kind, setKind] = useState<TargetKind>('AA');
+  const [apcaLc, setApcaLc] = useState(75);
+
+  const target = useMemo<ContrastTarget>(
+    () => (kind === 'APCA' ? { kind: 'apca', lc: apcaLc } : { kind: 'wcag', level: kind }),
+    [kind, apcaLc]
+  );
+  // Il risultato è un'anteprima: la palette cambia solo con "Applica"
+  const result = useMemo(() => solveAccessiblePairs(palette, target), [palette, target]);
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex gap-2">
+          {targetKinds.map((k) => (
+            <button
+              key={k}
+              onClick={() => setKind(k)}
+              className={cn(
+                'text-xs font-semibold py-1.5 px-3 rounded-lg border-2 transition-all',
+                kind === k
+                  ? 'bg-indigo-600 text-white border-indigo-700'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+              )}
+              aria-pressed={kind === k}
+            >
+              {k}
+            </button>
+          ))}
+        </div>
+        {kind === 'APCA' && (
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            Lc minimo:
+            <input
+              type="range"
+              min="45"
+              max="90"
+              step="15"
+              value={apcaLc}
+              onChange={(e) => setApcaLc(parseInt(e.target.value))}
+              className="w-32 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-600"
+            />
+            <span className="font-mono text-indigo-600 dark:text-indigo-400">{apcaLc}</span>
+          </label>
+        )}
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          Coppie: {DEFAULT_ROLE_PAIRS.map(p => `${roleLabels[p.foreground]}/${roleLabels[p.background]}`).join(', ')}
+        </span>
+      </div>
+
+      {result.changes.length === 0 && result.unresolved.length === 0 && (
+        <p className="flex items-center gap-1.5 text-sm text-green-600 dark:text-green-400">
+          <CheckCircleIcon className="h-5 w-5" />
+          Tutte le coppie rispettano {describeTarget(target)}.
+        </p>
+      )}
+
+      {result.changes.length > 0 && (
+        <div className="space-y-2">
+          {result.changes.map((change) => (
+            <div key={change.role} className="flex items-center gap-3 text-sm">
+              <span className="w-24 font-medium text-gray-700 dark:text-gray-300">{roleLabels[change.role]}</span>
+              <span className="h-6 w-6 rounded border border-gray-300 dark:border-gray-600" style={{ backgroundColor: change.before }} />
+              <span className="font-mono text-xs text-gray-500 dark:text-gray-400">{change.before.toUpperCase()}</span>
+              <ArrowRightIcon className="h-4 w-4 text-gray-400" />
+              <span className="h-6 w-6 rounded border border-gray-300 dark:border-gray-600" style={{ backgroundColor: change.after }} />
+              <span className="font-mono text-xs text-gray-900 dark:text-white">{change.after.toUpperCase()}</span>
+              <span className="font-mono text-xs text-gray-500 dark:text-gray-400">ΔE {(change.deltaE * 100).toFixed(1)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {result.unresolved.length > 0 && (
+        <p className="flex items-center gap-1.5 text-sm text-yellow-700 dark:text-yellow-400">
+          <ExclamationTriangleIcon className="h-4 w-4" />
+          Impossibile correggere: {result.unresolved.map(p => `${roleLabels[p.foreground]}/${roleLabels[p.background]}`).join(', ')}
+        </p>
+      )}
+
+      {result.changes.length > 0 && (
+        <Button variant="primary" onClick={() => onApply(result.palette)}>
+          Applica correzioni
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default AccessibilityFixer;
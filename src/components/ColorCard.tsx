@@ -1,7 +1,10 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { CheckIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline';
-import { cn, getTextColor, getContrastRatio, copyToClipboard } from '../lib/utils';
+import { CheckIcon, ClipboardDocumentIcon, LockClosedIcon, LockOpenIcon } from '@heroicons/react/24/outline';
+import { cn, getTextColor, getContrastRatio, copyToClipboard, CHECKERBOARD_BACKGROUND } from '../lib/utils';
+import { compositeOver, hexAlpha, withAlpha } from '../utils/colorUtils';
+import { simulateDeficiency, type VisionDeficiency } from '../utils/colorVision';
+import { DEFAULT_NAME_DICTIONARY, findNearestColorName, formatColorName, type ColorDictionaryId } from '../utils/colorNames';
 
 interface ColorCardProps {
   color: string;
@@ -11,7 +14,13 @@ interface ColorCardProps {
   showHex?: boolean;
   onClick?: () => void;
   reflectiveness?: number;
-  opacity?: number;
+  // Sfondo su cui un colore trasparente viene composto per testo e contrasto
+  backdrop?: string;
+  simulation?: VisionDeficiency;
+  locked?: boolean;
+  onToggleLock?: () => void;
+  // Dizionario per il nome più vicino; null lo nasconde
+  nameDictionary?: ColorDictionaryId | null;
 }
 
 const ColorCard: React.FC<ColorCardProps> = ({
@@ -22,13 +31,26 @@ const ColorCard: React.FC<ColorCardProps> = ({
   showHex = true,
   onClick,
   reflectiveness = 0,
-  opacity = 100,
+  backdrop = '#ffffff',
+  simulation = 'normal',
+  locked = false,
+  onToggleLock,
+  nameDictionary = DEFAULT_NAME_DICTIONARY,
 }) => {
   const [copied, setCopied] = useState(false);
   const [showTooltip, setShowTooltip] = useState(false);
-  const textColor = getTextColor(color);
-  const contrastRatio = showContrast ? getContrastRatio(color, textColor) : null;
+  const alpha = hexAlpha(color);
+  // Colore come appare con la simulazione attiva (alpha incluso); copia ed etichetta restano sull'originale
+  const displayColor = withAlpha(simulateDeficiency(color, simulation), alpha);
+  // Colore effettivo sullo sfondo scelto: testo e contrasto si basano su questo
+  const effectiveColor = compositeOver(displayColor, backdrop);
+  const textColor = getTextColor(effectiveColor);
+  const contrastRatio = showContrast ? getContrastRatio(effectiveColor, textColor) : null;
   const contrastScore = contrastRatio ? Math.round(contrastRatio * 10) / 10 : null;
+  const nearestName = useMemo(
+    () => nameDictionary ? findNearestColorName(color, nameDictionary) : null,
+    [color, nameDictionary]
+  );
   
 
   const handleCopy = (e: React.MouseEvent) => {
@@ -39,6 +61,11 @@ const ColorCard: React.FC<ColorCardProps> = ({
     });
   };
 
+  const handleToggleLock = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onToggleLock?.();
+  };
+
   // Material style calculation
   const blur = reflectiveness > 0 ? (100 - reflectiveness) / 8 : 0; // Ridotto il divisore da 10 a 8 per un effetto più pronunciato
   const opacityShadow = reflectiveness / 100; // Aumentato l'opacità massima da 0.5 a 1.0
@@ -62,7 +89,7 @@ const ColorCard: React.FC<ColorCardProps> = ({
 
   // Determina il colore del testo in base alla luminosità del colore di sfondo
   const textStyle = {
-    color: isLightColor(color) ? 'rgba(0, 0, 0, 0.9)' : 'rgba(255, 255, 255, 0.95)'
+    color: isLightColor(effectiveColor) ? 'rgba(0, 0, 0, 0.9)' : 'rgba(255, 255, 255, 0.95)'
   };
 
   return (
@@ -74,14 +101,40 @@ const ColorCard: React.FC<ColorCardProps> = ({
         className
       )}
       style={{
-        backgroundColor: color,
-        opacity: `${opacity}%`,
+        // I colori trasparenti sono mostrati sopra una scacchiera
+        background: alpha < 1 ? `linear-gradient(${displayColor}, ${displayColor}), ${CHECKERBOARD_BACKGROUND}` : displayColor,
         boxShadow: shadow,
       }}
       onClick={onClick}
       whileHover={{ scale: 1.02 }}
       whileTap={{ scale: 0.98 }}
     >
+      {/* Lock button: un colore bloccato resta fisso quando si rigenera */}
+      {onToggleLock && (
+        <div className="absolute left-0 top-0 p-2 z-20">
+          <button
+            className={cn(
+              'p-1.5 rounded-full transition-all',
+              'bg-white/20 backdrop-blur-sm hover:bg-white/30',
+              'focus:outline-none focus:ring-2 focus:ring-white/50',
+              'flex items-center justify-center w-7 h-7',
+              locked ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'
+            )}
+            style={textStyle}
+            onClick={handleToggleLock}
+            aria-pressed={locked}
+            aria-label={locked ? 'Sblocca colore' : 'Blocca colore'}
+            title={locked ? 'Sblocca colore' : 'Blocca colore'}
+          >
+            {locked ? (
+              <LockClosedIcon className="w-3.5 h-3.5" />
+            ) : (
+              <LockOpenIcon className="w-3.5 h-3.5" />
+            )}
+          </button>
+        </div>
+      )}
+
       {/* Copy button */}
       <motion.div 
         className="absolute right-0 top-0 p-2 z-20"
@@ -127,6 +180,18 @@ const ColorCard: React.FC<ColorCardProps> = ({
             style={textStyle}
           >
             {color.toUpperCase()}
+            {alpha < 1 && <span className="opacity-75"> · {Math.round(alpha * 100)}%</span>}
+          </p>
+        )}
+
+        {/* Nome più vicino nel dizionario scelto */}
+        {nearestName && (
+          <p
+            className="text-xs truncate -mt-1 mb-2 opacity-90"
+            style={textStyle}
+            title={`${formatColorName(nearestName)} (${nearestName.hex.toUpperCase()}) · ΔE ${nearestName.deltaE.toFixed(1)}`}
+          >
+            ≈ {formatColorName(nearestName)} · ΔE {nearestName.deltaE.toFixed(1)}
           </p>
         )}
 
@@ -147,7 +212,11 @@ const ColorCard: React.FC<ColorCardProps> = ({
                 }}
               />
             </div>
-            <div className="flex justify-between text-xs" style={textStyle}>
+            <div
+              className="flex justify-between text-xs"
+              style={textStyle}
+              title={alpha < 1 ? `Calcolato sul colore composto sopra ${backdrop.toUpperCase()}` : undefined}
+            >
               <span>Contrasto</span>
               <span className="font-mono">{contrastScore}:1</span>
             </div>
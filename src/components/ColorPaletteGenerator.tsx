@@ -1,26 +1,72 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from './ui/Button';
 import {
-  getContrastText,
   generateAnalogous,
   generateTriadic,
   generateMonochromatic,
   generateComplementary,
   generateSplitComplementary,
-  generateTetradic
+  generateTetradic,
+  generateTonalScale,
+  generateHarmoniousBase,
+  mergeLockedColors,
+  hexToOklch,
+  hexAlpha,
+  withAlpha,
+  compositeOver,
+  TONAL_STEPS
 } from '../utils/colorUtils';
 import {
   ArrowPathIcon,
   SwatchIcon,
   PlusIcon,
-  TrashIcon,
   CheckIcon,
   ArrowDownTrayIcon,
-  DocumentArrowUpIcon
+  DocumentArrowUpIcon,
+  LinkIcon,
+  LockClosedIcon,
+  LockOpenIcon
 } from '@heroicons/react/24/outline';
 import ColorCard from './ColorCard';
-import type { ColorPalette } from '../types';
+import ExportPanel from './ExportPanel';
+import ImportDialog from './ImportDialog';
+import ImageExtractor from './ImageExtractor';
+import VisionSimulationPanel from './VisionSimulationPanel';
+import ContrastMatrix from './ContrastMatrix';
+import AccessibilityFixer from './AccessibilityFixer';
+import HistoryTimeline from './HistoryTimeline';
+import PaletteLibrary from './PaletteLibrary';
+import UiPreview from './UiPreview';
+import ThemePairPanel from './ThemePairPanel';
+import RoleEditor from './RoleEditor';
+import MaterialSchemePanel from './MaterialSchemePanel';
+import GradientBuilder from './GradientBuilder';
+import DataVizPreview from './DataVizPreview';
+import HarmonyParamControls from './HarmonyParamControls';
+import ColorWheel from './ColorWheel';
+import { useTheme } from '../contexts/ThemeContext';
+import { useHistoryStore } from '../store/useHistoryStore';
+import { usePaletteStore } from '../store/usePaletteStore';
+import type { VisionDeficiency } from '../utils/colorVision';
+import { parsePaletteFile, buildImportedPalette, importAccept, type ParsedPalette } from '../utils/importers';
+import { buildSharePath, buildShortSharePath, parseSharePath } from '../utils/shareUrl';
+import { syncPairedThemes } from '../utils/themePairs';
+import { solveAccessiblePairs, type ContrastTarget } from '../utils/accessiblePairs';
+import {
+  generateMaterialScheme,
+  hasMaterialRoleAssignments,
+  MATERIAL_SWATCH_ROLES,
+  materialPaletteFields,
+  materialRoleLabel,
+  materialVariants,
+} from '../utils/material';
+import { harmonyParamSchemas, isHarmonyScheme, isHueHarmony, resolveHarmonyParams, type HarmonyScheme } from '../utils/harmonyParams';
+import { DATA_VIZ_COUNT, generateCategorical, generateDiverging, generateSequential, type DataVizKind } from '../utils/dataViz';
+import { colorDictionaries, DEFAULT_NAME_DICTIONARY, generatePaletteName, type ColorDictionaryId } from '../utils/colorNames';
+import { parseCssColor } from '../utils/cssColor';
+import { copyToClipboard } from '../lib/utils';
+import type { ColorPalette, HarmonyParams, HarmonySpace, MaterialVariant, TonalCurve } from '../types';
 
 // Animation variants (kept for future use)
 // const containerVariants = {
@@ -55,7 +101,7 @@ import type { ColorPalette } from '../types';
 // };
 
 // Definizione dei tipi di schema colore
-type ColorSchemeType = 'Analogous' | 'Complementary' | 'Triadic' | 'Monochromatic' | 'SplitComplementary' | 'Tetradic' | 'MonochromaticAchromatic' | 'LuminosityContrast';
+type ColorSchemeType = 'Analogous' | 'Complementary' | 'Triadic' | 'Monochromatic' | 'SplitComplementary' | 'Tetradic' | 'MonochromaticAchromatic' | 'LuminosityContrast' | 'Material' | 'Sequential' | 'Diverging' | 'Categorical';
 
 // Definizioni per la UI degli schemi colore
 const schemeList: ColorSchemeType[] = [
@@ -66,7 +112,11 @@ const schemeList: ColorSchemeType[] = [
   'Complementary',
   'Triadic',
   'SplitComplementary',
-  'Tetradic'
+  'Tetradic',
+  'Material',
+  'Sequential',
+  'Diverging',
+  'Categorical'
 ];
 
 const schemeLabels: Record<ColorSchemeType, string> = {
@@ -77,7 +127,52 @@ const schemeLabels: Record<ColorSchemeType, string> = {
   Complementary: 'Complementare',
   Triadic: 'Triadico',
   SplitComplementary: 'Split Comp.',
-  Tetradic: 'Tetradico'
+  Tetradic: 'Tetradico',
+  Material: 'Material 3',
+  Sequential: 'Sequenziale',
+  Diverging: 'Divergente',
+  Categorical: 'Categorico'
+};
+
+// Schemi per grafici: tipo di scala mostrato nell'anteprima
+const dataVizKinds: Partial<Record<ColorSchemeType, DataVizKind>> = {
+  Sequential: 'sequential',
+  Diverging: 'diverging',
+  Categorical: 'categorical',
+};
+
+// Spazi colore in cui ruotare tinta e luminosità
+const harmonySpaces: { value: HarmonySpace; label: string }[] = [
+  { value: 'hsl', label: 'HSL' },
+  { value: 'oklch', label: 'OKLCH' },
+  { value: 'lch', label: 'LCh' },
+];
+
+// Curve di luminosità per la scala tonale
+const tonalCurves: { value: TonalCurve; label: string }[] = [
+  { value: 'tailwind', label: 'Tailwind' },
+  { value: 'linear', label: 'Lineare' },
+  { value: 'soft', label: 'Morbida' },
+];
+
+// Livello di contrasto garantito ai ruoli quando si seleziona un colore
+const SELECTION_CONTRAST_TARGET: ContrastTarget = { kind: 'wcag', level: 'AA' };
+
+// Sfondi su cui comporre i colori trasparenti per testo e contrasto
+type AlphaBackdrop = 'white' | 'black' | 'palette';
+
+const alphaBackdrops: { value: AlphaBackdrop; label: string }[] = [
+  { value: 'white', label: 'Bianco' },
+  { value: 'black', label: 'Nero' },
+  { value: 'palette', label: 'Sfondo palette' },
+];
+
+// Campi di una palette Material che un altro schema non sa ricalcolare
+const materialFieldsReset: Pick<ColorPalette, 'background' | 'text' | 'themes' | 'roleAssignments'> = {
+  background: '#ffffff',
+  text: '#111827',
+  themes: undefined,
+  roleAssignments: undefined,
 };
 
 interface Color {
@@ -85,10 +180,37 @@ interface Color {
   description: string;
 }
 
+// La base, quando inclusa, va sempre per prima: diventa il colore primario
+const harmonySwatches = (baseHex: string, colors: string[], label: string): Color[] => [
+  ...(colors.includes(baseHex) ? [{ hex: baseHex, description: 'Base' }] : []),
+  ...colors.filter(color => color !== baseHex).map((color, i) => ({ hex: color, description: `${label} ${i + 1}` })),
+];
+
 const ColorPaletteGenerator: React.FC = () => {
+  // Un link condiviso (/p/...) ha la precedenza sulla cronologia salvata
+  const [sharedState] = useState(() => parseSharePath(window.location.pathname, window.location.search));
+
+  // Cronologia persistente: al caricamento riparte dall'ultimo stato salvato
+  const recordHistory = useHistoryStore((state) => state.record);
+  const undoHistory = useHistoryStore((state) => state.undo);
+  const redoHistory = useHistoryStore((state) => state.redo);
+  // L'URL segue la palette corrente: se descrive la stessa palette della cronologia (un semplice ricaricamento)
+  // vince la copia in cronologia, che conserva anche id, temi, ruoli semantici e parametri dell'armonia
+  const [restoredPalette] = useState(() => {
+    const present = useHistoryStore.getState().present?.palette ?? null;
+    if (!sharedState) return present;
+    return present && buildSharePath({ palette: present }) === buildSharePath({ palette: sharedState.palette })
+      ? present
+      : sharedState.palette;
+  });
+  const historyLabel = useRef(sharedState && restoredPalette === sharedState.palette ? 'Link condiviso' : 'Palette iniziale');
+  // Il nome segue i colori finché l'utente non lo sceglie (rinomina, salvataggio, importazione)
+  const autoName = useRef(!restoredPalette ||
+    (!restoredPalette.id && restoredPalette.name === generatePaletteName(restoredPalette.colors)));
+
   // State for the current palette with advanced features
-  const [currentPalette, setCurrentPalette] = useState<ColorPalette>({
-    name: 'My Color Palette',
+  const [currentPalette, setCurrentPalette] = useState<ColorPalette>(() => restoredPalette ?? {
+    name: generatePaletteName(['#4F46E5', '#7C3AED', '#EC4899', '#F59E0B', '#10B981']),
     colors: ['#4F46E5', '#7C3AED', '#EC4899', '#F59E0B', '#10B981'],
     primary: '#4F46E5',
     secondary: '#7C3AED',
@@ -97,63 +219,87 @@ const ColorPaletteGenerator: React.FC = () => {
     text: '#111827'
   });
 
-  // State for saved palettes
-  const [palettes, setPalettes] = useState<ColorPalette[]>([]);
-  
-  // Function to save a palette
-  const savePalette = (palette: ColorPalette) => {
-    setPalettes([...palettes, palette]);
-  };
-  
-  // Function to delete a palette
-  const deletePalette = (name: string) => {
-    setPalettes(palettes.filter(p => p.name !== name));
-  };
-  
-  // Function to generate a new palette
-  const generateNewPalette = (): ColorPalette => {
-    const colors = [
-      `#${Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0')}`,
-      `#${Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0')}`,
-      `#${Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0')}`,
-      `#${Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0')}`,
-      `#${Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0')}`
-    ];
-    
-    return {
-      name: `Palette ${palettes.length + 1}`,
-      colors,
-      primary: colors[0],
-      secondary: colors[1],
-      accent: colors[2],
-      background: '#ffffff',
-      text: '#111827'
-    };
-  };
+  // Palette salvate: repository unico e persistente
+  const savePalette = usePaletteStore((state) => state.savePalette);
 
   // Stato per le funzionalità avanzate
-  const [baseColor, setBaseColor] = useState<string>('#4F46E5');
-  const [schemeType, setSchemeType] = useState<ColorSchemeType>('LuminosityContrast');
-  const [reflectiveness, setReflectiveness] = useState(50);
-  const [opacity, setOpacity] = useState(100);
+  // La base è sempre opaca: l'alpha riguarda solo i colori della palette
+  const [baseColor, setBaseColor] = useState<string>(() => withAlpha(sharedState?.baseColor ?? sharedState?.palette.colors[0] ?? '#4F46E5', 1));
+  // Testo digitato nel campo del colore base: null quando mostra semplicemente baseColor
+  const [baseDraft, setBaseDraft] = useState<string | null>(null);
+  const baseDraftError = useMemo(() => {
+    if (baseDraft === null) return null;
+    try {
+      parseCssColor(baseDraft);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Colore non valido';
+    }
+  }, [baseDraft]);
+
+  // Se la base cambia altrove (ruota, immagine, importazione) il testo digitato non vale più
+  useEffect(() => {
+    setBaseDraft(draft => {
+      if (draft === null) return null;
+      try {
+        return parseCssColor(draft).hex.toUpperCase() === baseColor ? draft : null;
+      } catch {
+        return null;
+      }
+    });
+  }, [baseColor]);
+  const [schemeType, setSchemeType] = useState<ColorSchemeType>(() =>
+    schemeList.find(scheme => scheme === (sharedState?.schemeType ?? restoredPalette?.harmony?.scheme)) ?? 'LuminosityContrast');
+  // Parametri modificati per ciascuna armonia (quelli salvati con la palette ripristinata compresi)
+  const [harmonyParams, setHarmonyParams] = useState<Partial<Record<HarmonyScheme, Partial<HarmonyParams>>>>(() => {
+    const saved = restoredPalette?.harmony;
+    return saved && isHarmonyScheme(saved.scheme) ? { [saved.scheme]: saved.params } : {};
+  });
+  const activeHarmonyParams = useMemo(() =>
+    isHarmonyScheme(schemeType) ? resolveHarmonyParams(schemeType, harmonyParams[schemeType]) : null,
+  [schemeType, harmonyParams]);
+  const [harmonySpace, setHarmonySpace] = useState<HarmonySpace>('hsl');
+  const [tonalCurve, setTonalCurve] = useState<TonalCurve>('tailwind');
+  const [materialVariant, setMaterialVariant] = useState<MaterialVariant>('tonalSpot');
+  const [dataVizCount, setDataVizCount] = useState<number>(DATA_VIZ_COUNT.default);
+  const [visionMode, setVisionMode] = useState<VisionDeficiency>('normal');
+  const [nameDictionary, setNameDictionary] = useState<ColorDictionaryId>(DEFAULT_NAME_DICTIONARY);
+  const [reflectiveness, setReflectiveness] = useState(sharedState?.reflectiveness ?? 50);
+  // Alpha dei colori generati (%), ripreso dalla palette ripristinata se il link non lo indica
+  const [opacity, setOpacity] = useState(() =>
+    sharedState?.opacity ?? Math.round(hexAlpha(restoredPalette?.colors[0] ?? '#000000') * 100));
+  const [alphaBackdrop, setAlphaBackdrop] = useState<AlphaBackdrop>('white');
   const [generatedPalette, setGeneratedPalette] = useState<Color[]>([]);
+  // Posizioni (indici in currentPalette.colors) che la rigenerazione non tocca
+  const [lockedIndexes, setLockedIndexes] = useState<Set<number>>(() => new Set());
 
   // Animation key is used to force re-render
   const [showSaveSuccess, setShowSaveSuccess] = useState(false);
   const [activeTab, setActiveTab] = useState<'current' | 'saved'>('current');
   const [paletteName, setPaletteName] = useState(currentPalette.name);
   const [isEditingName, setIsEditingName] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [importPreview, setImportPreview] = useState<ParsedPalette | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [copiedLink, setCopiedLink] = useState<'full' | 'short' | null>(null);
+
+  // Schema Material completo (entrambi i temi) mostrato sotto la palette generata
+  const materialScheme = useMemo(() =>
+    schemeType === 'Material' && /^#([0-9A-F]{3}){1,2}$/i.test(baseColor)
+      ? generateMaterialScheme(baseColor, materialVariant)
+      : null,
+  [schemeType, baseColor, materialVariant]);
 
   // Funzione avanzata per generare palette di colori
-  const generateAdvancedPalette = (baseHex: string, scheme: ColorSchemeType): Color[] => {
+  const generateAdvancedPalette = useCallback((baseHex: string, scheme: ColorSchemeType, space: HarmonySpace): Color[] => {
+    const options = { space, ...activeHarmonyParams };
     switch (scheme) {
       case 'LuminosityContrast': {
-        const luminositySteps = [10, 25, 40, 55, 70, 85, 95];
-        const grades = ['900', '700', '500', '300', '200', '100', '50'];
-        return luminositySteps.map((l, index) => ({
-          hex: generateLuminosityContrast(baseHex, l),
-          description: `Sfumatura ${grades[index]} (L=${l}%)`,
-        })).reverse();
+        const { shades, baseStep } = generateTonalScale(baseHex, { curve: tonalCurve });
+        return TONAL_STEPS.map((step) => ({
+          hex: shades[step],
+          description: `Sfumatura ${step}${step === baseStep ? ' (Base)' : ''} (L=${Math.round(hexToOklch(shades[step]).l * 100)}%)`,
+        }));
       }
       case 'MonochromaticAchromatic': {
         return [
@@ -164,149 +310,179 @@ const ColorPaletteGenerator: React.FC = () => {
           { hex: '#000000', description: 'Neutro (Nero)' },
         ];
       }
-      case 'Monochromatic': {
-        return [
-          { hex: baseHex, description: 'Base (Originale)' },
-          ...generateMonochromatic(baseHex).slice(1).map((color, i) => ({ hex: color, description: `Mono ${i + 1}` }))
-        ];
-      }
-      case 'Analogous': {
-        return [
-          { hex: baseHex, description: 'Base' },
-          ...generateAnalogous(baseHex).slice(1).map((color, i) => ({ hex: color, description: `Analogo ${i + 1}` }))
-        ];
+      case 'Monochromatic':
+        return harmonySwatches(baseHex, generateMonochromatic(baseHex, options), 'Mono');
+      case 'Analogous':
+        return harmonySwatches(baseHex, generateAnalogous(baseHex, options), 'Analogo');
+      case 'Complementary':
+        return harmonySwatches(baseHex, generateComplementary(baseHex, options), 'Complementare');
+      case 'Triadic':
+        return harmonySwatches(baseHex, generateTriadic(baseHex, options), 'Triadico');
+      case 'SplitComplementary':
+        return harmonySwatches(baseHex, generateSplitComplementary(baseHex, options), 'Split Comp.');
+      case 'Tetradic':
+        return harmonySwatches(baseHex, generateTetradic(baseHex, options), 'Tetradico');
+      case 'Material': {
+        const { light } = materialScheme ?? generateMaterialScheme(baseHex, materialVariant);
+        return MATERIAL_SWATCH_ROLES.map(role => ({ hex: light[role], description: materialRoleLabel(role) }));
       }
-      case 'Complementary': {
-        return [
-          { hex: baseHex, description: 'Base' },
-          ...generateComplementary(baseHex).slice(1).map((color, i) => ({ hex: color, description: `Complementare ${i + 1}` }))
-        ];
+      case 'Sequential': {
+        return generateSequential(baseHex, dataVizCount).map((color, i) => ({ hex: color, description: `Passo ${i + 1}` }));
       }
-      case 'Triadic': {
-        return [
-          { hex: baseHex, description: 'Base' },
-          ...generateTriadic(baseHex).slice(1).map((color, i) => ({ hex: color, description: `Triadico ${i + 1}` }))
-        ];
-      }
-      case 'SplitComplementary': {
-        return [
-          { hex: baseHex, description: 'Base' },
-          ...generateSplitComplementary(baseHex).slice(1).map((color, i) => ({ hex: color, description: `Split Comp. ${i + 1}` }))
-        ];
+      case 'Diverging': {
+        const middle = (dataVizCount - 1) / 2;
+        return generateDiverging(baseHex, dataVizCount).map((color, i) => ({
+          hex: color,
+          description: i === middle ? 'Neutro' : `${i < middle ? 'Base' : 'Complementare'} ${Math.ceil(Math.abs(i - middle))}`,
+        }));
       }
-      case 'Tetradic': {
-        return [
-          { hex: baseHex, description: 'Base' },
-          ...generateTetradic(baseHex).slice(1).map((color, i) => ({ hex: color, description: `Tetradico ${i + 1}` }))
-        ];
+      case 'Categorical': {
+        return generateCategorical(baseHex, dataVizCount).map((color, i) => ({
+          hex: color,
+          description: i === 0 ? 'Categoria 1 (Base)' : `Categoria ${i + 1}`,
+        }));
       }
       default:
         return [];
     }
-  };
-
-  // Funzioni helper per generazione colori
-  const hexToHsl = (hex: string): { h: number, s: number, l: number } => {
-    let r = 0, g = 0, b = 0;
-    if (hex.length === 4) {
-      r = parseInt(hex[1] + hex[1], 16);
-      g = parseInt(hex[2] + hex[2], 16);
-      b = parseInt(hex[3] + hex[3], 16);
-    } else if (hex.length === 7) {
-      r = parseInt(hex.substring(1, 3), 16);
-      g = parseInt(hex.substring(3, 5), 16);
-      b = parseInt(hex.substring(5, 7), 16);
-    }
-
-    r /= 255;
-    g /= 255;
-    b /= 255;
-
-    const max = Math.max(r, g, b);
-    const min = Math.min(r, g, b);
-    let h = 0, s = 0, l = (max + min) / 2;
-
-    if (max !== min) {
-      const d = max - min;
-      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-      switch (max) {
-        case r: h = (g - b) / d + (g < b ? 6 : 0); break;
-        case g: h = (b - r) / d + 2; break;
-        case b: h = (r - g) / d + 4; break;
-      }
-      h /= 6;
-    }
-
-    return {
-      h: Math.round(h * 360),
-      s: Math.round(s * 100),
-      l: Math.round(l * 100),
-    };
-  };
-
-  const hslToHex = (h: number, s: number, l: number): string => {
-    h /= 360;
-    s /= 100;
-    l /= 100;
-
-    let r, g, b;
-
-    if (s === 0) {
-      r = g = b = l;
-    } else {
-      const hue2rgb = (p: number, q: number, t: number) => {
-        if (t < 0) t += 1;
-        if (t > 1) t -= 1;
-        if (t < 1 / 6) return p + (q - p) * 6 * t;
-        if (t < 1 / 2) return q;
-        if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
-        return p;
-      };
-      const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-      const p = 2 * l - q;
-      r = hue2rgb(p, q, h + 1 / 3);
-      g = hue2rgb(p, q, h);
-      b = hue2rgb(p, q, h - 1 / 3);
-    }
-
-    const toHex = (c: number) => {
-      const hex = Math.round(c * 255).toString(16);
-      return hex.length === 1 ? '0' + hex : hex;
-    };
-
-    return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
-  };
-
-  const generateLuminosityContrast = (hex: string, lightness: number): string => {
-    const { h, s } = hexToHsl(hex);
-    return hslToHex(h, s, lightness);
-  };
+  }, [activeHarmonyParams, tonalCurve, materialScheme, materialVariant, dataVizCount]);
+
+  // Finché i parametri restano quelli del caricamento la palette ripristinata non va sovrascritta,
+  // anche se l'effetto gira più volte (StrictMode lo esegue due volte in sviluppo)
+  const buildGenerationKey = useCallback((base: string, scheme: ColorSchemeType, params: typeof harmonyParams) => JSON.stringify([
+    base, scheme, harmonySpace, tonalCurve, materialVariant, dataVizCount,
+    isHarmonyScheme(scheme) ? resolveHarmonyParams(scheme, params[scheme]) : null, opacity,
+  ]), [harmonySpace, tonalCurve, materialVariant, dataVizCount, opacity]);
+  const generationKey = buildGenerationKey(baseColor, schemeType, harmonyParams);
+  const restoredGenerationKey = useRef(restoredPalette ? generationKey : null);
+  // Parametri per cui la palette è già stata generata: lucchetti e modifiche alla palette non la rigenerano
+  const lastGenerationKey = useRef<string | null>(null);
+
+  // Una palette aperta o importata riporta nei controlli la sua armonia, senza essere rigenerata
+  const restoreControls = useCallback((palette: ColorPalette, base = baseColor) => {
+    const saved = palette.harmony;
+    const scheme = schemeList.find(s => s === saved?.scheme) ?? schemeType;
+    const params = saved && isHarmonyScheme(saved.scheme) ? { ...harmonyParams, [saved.scheme]: saved.params } : harmonyParams;
+    setSchemeType(scheme);
+    setHarmonyParams(params);
+    restoredGenerationKey.current = buildGenerationKey(base, scheme, params);
+  }, [baseColor, schemeType, harmonyParams, buildGenerationKey]);
 
   // Aggiorna la palette quando cambiano i parametri
   useEffect(() => {
     if (baseColor && /^#([0-9A-F]{3}){1,2}$/i.test(baseColor)) {
-      const newPalette = generateAdvancedPalette(baseColor, schemeType);
+      if (lastGenerationKey.current === generationKey) return;
+      lastGenerationKey.current = generationKey;
+
+      const generated = generateAdvancedPalette(baseColor, schemeType, harmonySpace)
+        .map(color => ({ ...color, hex: withAlpha(color.hex, opacity / 100) }));
+      const colors = mergeLockedColors(currentPalette.colors, generated.map(c => c.hex), lockedIndexes);
+      const newPalette = generated.map((color, i) =>
+        colors[i] === color.hex ? color : { hex: colors[i], description: 'Bloccato' });
       setGeneratedPalette(newPalette);
 
+      // Non sovrascrivere la palette ripristinata dalla cronologia
+      if (restoredGenerationKey.current === generationKey) return;
+      restoredGenerationKey.current = null;
+
       // Aggiorna anche la palette corrente nel tema
+      historyLabel.current = `${schemeLabels[schemeType]} · ${baseColor.toUpperCase()}`;
+      const name = autoName.current ? generatePaletteName(colors) : null;
+      if (name) setPaletteName(name);
+      // Material definisce anche sfondo, testo, tema scuro e ruoli semantici;
+      // passando a un altro schema quei campi non valgono più e tornano ai valori predefiniti
+      const material = materialScheme ? materialPaletteFields(materialScheme) : null;
       setCurrentPalette(prev => ({
         ...prev,
+        ...(name ? { name } : {}),
+        ...(!material && hasMaterialRoleAssignments(prev) ? materialFieldsReset : {}),
+        ...material,
+        harmony: activeHarmonyParams ? { scheme: schemeType, params: activeHarmonyParams } : undefined,
         colors: newPalette.map(c => c.hex),
         primary: newPalette[0]?.hex || baseColor,
         secondary: newPalette[1]?.hex || baseColor,
         accent: newPalette[2]?.hex || baseColor,
       }));
     }
-  }, [baseColor, schemeType]);
+  }, [generationKey, generateAdvancedPalette, baseColor, schemeType, harmonySpace, materialScheme, activeHarmonyParams, opacity, currentPalette.colors, lockedIndexes]);
 
-  const handleColorSelect = useCallback((color: string) => {
-    setCurrentPalette({
-      ...currentPalette,
-      primary: color,
-      secondary: getContrastText(color),
-      text: getContrastText(color),
+  // Il tema abbinato segue i ruoli: ogni modifica ai ruoli lo riderive (no-op se già allineato)
+  useEffect(() => {
+    setCurrentPalette(syncPairedThemes);
+  }, [currentPalette]);
+
+  // La palette corrente (con il suo tema scuro abbinato) diventa quella dell'app: ThemeContext ne applica le variabili --color-*
+  const { setCurrentPalette: setThemePalette } = useTheme();
+  useEffect(() => {
+    setThemePalette(currentPalette);
+  }, [currentPalette, setThemePalette]);
+
+  // Ogni modifica della palette entra nella cronologia; undo/redo ripristinano
+  // lo stato già presente, quindi la registrazione diventa un no-op
+  useEffect(() => {
+    recordHistory(currentPalette, historyLabel.current);
+  }, [currentPalette, recordHistory]);
+
+  // Colori per la simulazione: stesso array finché non cambiano, così il pannello non ricalcola le coppie
+  const visionColors = useMemo(
+    () => [...currentPalette.colors, currentPalette.primary, currentPalette.secondary, currentPalette.accent],
+    [currentPalette.colors, currentPalette.primary, currentPalette.secondary, currentPalette.accent]
+  );
+
+  // Sfondo concreto su cui comporre i colori trasparenti
+  const backdrop = { white: '#ffffff', black: '#000000', palette: compositeOver(currentPalette.background) }[alphaBackdrop];
+
+  // L'URL segue lo stato corrente; replaceState è rimandato per non saturare la history del browser
+  const sharePath = buildSharePath({ palette: currentPalette, schemeType, baseColor, reflectiveness, opacity });
+  useEffect(() => {
+    const timeout = setTimeout(() => window.history.replaceState(null, '', sharePath), 300);
+    return () => clearTimeout(timeout);
+  }, [sharePath]);
+
+  const handleCopyLink = useCallback((kind: 'full' | 'short') => {
+    const path = kind === 'full' ? sharePath : buildShortSharePath(currentPalette.colors);
+    void copyToClipboard(`${window.location.origin}${path}`).then((copied) => {
+      if (!copied) return;
+      setCopiedLink(kind);
+      setTimeout(() => setCopiedLink(null), 2000);
     });
-    setBaseColor(color);
+  }, [sharePath, currentPalette.colors]);
+
+  const handleUndo = useCallback(() => {
+    const palette = undoHistory();
+    if (palette) setCurrentPalette(palette);
+  }, [undoHistory]);
+
+  const handleRedo = useCallback(() => {
+    const palette = redoHistory();
+    if (palette) setCurrentPalette(palette);
+  }, [redoHistory]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd su macOS); nei campi di testo resta l'undo nativo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      event.preventDefault();
+      if (event.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const handleColorSelect = useCallback((color: string) => {
+    historyLabel.current = `Selezione ${color.toUpperCase()}`;
+    // Il secondario resta quello scelto o armonizzato: il contrasto dei ruoli lo garantisce il risolutore
+    const { palette } = solveAccessiblePairs({ ...currentPalette, primary: color }, SELECTION_CONTRAST_TARGET);
+    setCurrentPalette(palette);
+    setBaseColor(withAlpha(color, 1));
   }, [currentPalette]);
 
   const handleSavePalette = useCallback(() => {
@@ -315,45 +491,38 @@ const ColorPaletteGenerator: React.FC = () => {
       return;
     }
 
-    savePalette({
+    // Con l'id restituito i salvataggi successivi aggiornano la stessa palette
+    const saved = savePalette({
       ...currentPalette,
       name: paletteName.trim() || 'Unnamed Palette',
     });
+    historyLabel.current = `Salvataggio ${saved.name}`;
+    autoName.current = false;
+    setCurrentPalette(prev => ({ ...prev, id: saved.id, name: saved.name }));
     setShowSaveSuccess(true);
     setTimeout(() => setShowSaveSuccess(false), 2000);
     setIsEditingName(false);
   }, [currentPalette, paletteName, savePalette]);
 
-  const handleExportPalette = () => {
-    const paletteData = {
-      name: currentPalette.name,
-      colors: currentPalette.colors,
-      primary: currentPalette.primary,
-      secondary: currentPalette.secondary,
-      accent: currentPalette.accent,
-      background: currentPalette.background,
-      text: currentPalette.text,
-      exportedAt: new Date().toISOString(),
-    };
-
-    const blob = new Blob([JSON.stringify(paletteData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${currentPalette.name.replace(/\s+/g, '_').toLowerCase()}_palette.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
-
   const handleGenerateNew = useCallback(() => {
-    // Genera una nuova palette usando il context
-    generateNewPalette();
-    // Genera anche un nuovo colore base casuale
-    const newBaseColor = `#${Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0')}`;
-    setBaseColor(newBaseColor);
-  }, [generateNewPalette]);
+    // Una palette nuova riprende il nome automatico, a meno che non sia già salvata
+    autoName.current = !currentPalette.id;
+    // Nuovo colore base: casuale, oppure in armonia con i colori bloccati
+    const lockedColors = currentPalette.colors.filter((_, i) => lockedIndexes.has(i));
+    setBaseColor(generateHarmoniousBase(lockedColors).toUpperCase());
+  }, [currentPalette.colors, currentPalette.id, lockedIndexes]);
+
+  const handleToggleLock = useCallback((index: number) => {
+    setLockedIndexes(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  }, []);
 
   const handleImportPalette = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -362,63 +531,41 @@ const ColorPaletteGenerator: React.FC = () => {
     // Reset del valore dell'input per permettere di importare lo stesso file più volte
     event.target.value = '';
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const result = e.target?.result;
-        if (!result || typeof result !== 'string') {
-          throw new Error('Errore nella lettura del file');
-        }
-
-        const importedData = JSON.parse(result);
-
-        // Validazione più robusta dei dati importati
-        if (!importedData || typeof importedData !== 'object') {
-          throw new Error('Il file non contiene dati validi');
-        }
-
-        if (!importedData.colors || !Array.isArray(importedData.colors) || importedData.colors.length === 0) {
-          throw new Error('Il file non contiene colori validi');
-        }
-
-        // Validazione che tutti gli elementi siano stringhe hex valide
-        const validColors = importedData.colors.filter((color: any) =>
-          typeof color === 'string' && /^#([0-9A-F]{3}){1,2}$/i.test(color)
-        );
-
-        if (validColors.length === 0) {
-          throw new Error('Nessun colore valido trovato nel file');
-        }
-
-        // Crea la palette importata
-        const importedPalette: ColorPalette = {
-          name: importedData.name || 'Imported Palette',
-          colors: validColors,
-          primary: importedData.primary || validColors[0],
-          secondary: importedData.secondary || validColors[1] || validColors[0],
-          accent: importedData.accent || validColors[2] || validColors[1] || validColors[0],
-          background: importedData.background || '#ffffff',
-          text: importedData.text || '#000000',
-        };
-
-        setCurrentPalette(importedPalette);
-        setBaseColor(validColors[0]);
-
-        // Mostra messaggio di successo
-        alert(`Palette "${importedPalette.name}" importata con successo! (${validColors.length} colori)`);
-
-      } catch (error) {
+    file.arrayBuffer()
+      .then((data) => parsePaletteFile(file.name, data))
+      .then((parsed) => {
+        setImportError(null);
+        setImportPreview(parsed);
+      })
+      .catch((error: unknown) => {
         console.error('Errore durante l\'importazione del file:', error);
         const errorMessage = error instanceof Error ? error.message : 'Errore sconosciuto';
-        alert(`Errore durante l'importazione: ${errorMessage}\n\nAssicurati che il file sia un JSON valido con colori esadecimali.`);
-      }
-    };
+        setImportPreview(null);
+        setImportError(`Errore durante l'importazione: ${errorMessage}`);
+      });
+  }, []);
 
-    reader.onerror = () => {
-      alert('Errore nella lettura del file. Riprova.');
-    };
+  const handleApplyImport = useCallback((parsed: ParsedPalette, selectedIndexes: number[]) => {
+    const importedPalette = buildImportedPalette(parsed, selectedIndexes.map(i => parsed.colors[i]));
+    const base = withAlpha(importedPalette.colors[0], 1).toUpperCase();
+    historyLabel.current = `Importazione ${importedPalette.name}`;
+    autoName.current = false;
+    setLockedIndexes(new Set());
+    setCurrentPalette(importedPalette);
+    setPaletteName(importedPalette.name);
+    setBaseColor(base);
+    restoreControls(importedPalette, base);
+    setImportPreview(null);
+  }, [restoreControls]);
+
+  const handleApplyFixes = useCallback((palette: ColorPalette) => {
+    historyLabel.current = 'Correzione accessibilità';
+    setCurrentPalette(palette);
+  }, []);
 
-    reader.readAsText(file);
+  const handleCloseImport = useCallback(() => {
+    setImportPreview(null);
+    setImportError(null);
   }, []);
 
 return (
@@ -434,39 +581,68 @@ return (
               {/* Input Colore Base */}
               <div className="flex flex-col">
                 <label htmlFor="baseColor" className="mb-2 text-sm font-medium text-gray-600 dark:text-gray-400">
-                  Colore Base (HEX):
+                  Colore Base (HEX, rgb(), hsl(), oklch(), nome CSS...):
                 </label>
                 <div className="flex items-stretch rounded-lg shadow-sm overflow-hidden border border-gray-300 dark:border-gray-600">
                   <input
                     type="color"
                     id="color-picker"
                     value={baseColor}
-                    onChange={(e) => setBaseColor(e.target.value.toUpperCase())}
+                    onChange={(e) => {
+                      setBaseColor(e.target.value.toUpperCase());
+                      setBaseDraft(null);
+                    }}
                     className="w-12 h-12 cursor-pointer border-none"
                     aria-label="Selettore colore base"
                   />
                   <input
                     type="text"
                     id="baseColor"
-                    value={baseColor}
+                    value={baseDraft ?? baseColor}
                     onChange={(e) => {
-                      const value = e.target.value.toUpperCase();
-                      if (value.match(/^#([0-9A-F]{0,6})$/i)) {
-                        setBaseColor(value);
+                      const value = e.target.value;
+                      setBaseDraft(value);
+                      // Ogni sintassi CSS valida aggiorna subito la base; quelle non valide restano solo nel campo
+                      try {
+                        setBaseColor(parseCssColor(value).hex.toUpperCase());
+                      } catch {
+                        // L'errore viene mostrato sotto il campo
                       }
                     }}
-                    maxLength={7}
-                    className="flex-1 px-4 py-2 text-lg font-mono tracking-wider focus:ring-2 focus:ring-indigo-500 focus:outline-none dark:bg-gray-700 dark:text-white"
+                    // Uscendo dal campo un colore valido viene riscritto in esadecimale
+                    onBlur={() => {
+                      if (!baseDraftError) setBaseDraft(null);
+                    }}
+                    className="flex-1 min-w-0 px-4 py-2 text-lg font-mono tracking-wider focus:ring-2 focus:ring-indigo-500 focus:outline-none dark:bg-gray-700 dark:text-white"
                     placeholder="#4F46E5"
-                    aria-label="Inserisci colore esadecimale"
-                    aria-describedby="base-color-help"
+                    aria-label="Inserisci un colore CSS"
+                    aria-invalid={baseDraftError !== null}
+                    aria-describedby={baseDraftError ? 'base-color-error' : 'base-color-help'}
                   />
                 </div>
-                <div id="base-color-help" className="sr-only">
-                  Inserisci un colore esadecimale valido nel formato #RRGGBB o #RGB
-                </div>
+                {baseDraftError ? (
+                  <p id="base-color-error" role="alert" className="mt-1 text-xs text-red-600 dark:text-red-400">
+                    {baseDraftError}
+                  </p>
+                ) : (
+                  <div id="base-color-help" className="sr-only">
+                    Inserisci un colore CSS: esadecimale (3, 4, 6 o 8 cifre), rgb(), hsl(), hwb(), lab(), lch(), oklab(), oklch(), color() o un nome
+                  </div>
+                )}
               </div>
 
+              {/* Ruota dei colori con le maniglie dell'armonia */}
+              {/^#([0-9A-F]{3}){1,2}$/i.test(baseColor) && (
+                <ColorWheel
+                  baseColor={baseColor}
+                  colors={generatedPalette.map(c => c.hex)}
+                  space={harmonySpace}
+                  harmony={isHueHarmony(schemeType) && activeHarmonyParams ? { scheme: schemeType, params: activeHarmonyParams } : null}
+                  onBaseChange={(color) => setBaseColor(color.toUpperCase())}
+                  onSpreadChange={(spread) => setHarmonyParams(prev => ({ ...prev, [schemeType]: { ...activeHarmonyParams, spread } }))}
+                />
+              )}
+
               {/* Selezione Schema */}
               <div className="flex flex-col">
                 <label className="mb-2 text-sm font-medium text-gray-600 dark:text-gray-400">
@@ -490,6 +666,122 @@ return (
                   ))}
                 </div>
               </div>
+
+              {/* Selezione Spazio Colore */}
+              <div className="flex flex-col">
+                <label className="mb-2 text-sm font-medium text-gray-600 dark:text-gray-400">
+                  Spazio Colore:
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {harmonySpaces.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => setHarmonySpace(value)}
+                      className={`text-xs font-semibold py-2 px-2 rounded-lg border-2 transition-all ${
+                        harmonySpace === value
+                          ? 'bg-indigo-600 text-white border-indigo-700'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                      aria-pressed={harmonySpace === value}
+                      aria-label={`Seleziona spazio colore ${label}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className='text-[11px] text-gray-500 dark:text-gray-400 mt-1'>
+                  OKLCH e LCh ruotano la tinta mantenendo costante la luminosità percepita.
+                </p>
+              </div>
+
+              {/* Curva della scala tonale */}
+              {schemeType === 'LuminosityContrast' && (
+                <div className="flex flex-col">
+                  <label className="mb-2 text-sm font-medium text-gray-600 dark:text-gray-400">
+                    Curva di Luminosità (50–950):
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {tonalCurves.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        onClick={() => setTonalCurve(value)}
+                        className={`text-xs font-semibold py-2 px-2 rounded-lg border-2 transition-all ${
+                          tonalCurve === value
+                            ? 'bg-indigo-600 text-white border-indigo-700'
+                            : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        }`}
+                        aria-pressed={tonalCurve === value}
+                        aria-label={`Seleziona curva ${label}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Parametri dell'armonia, generati dal suo schema */}
+              {isHarmonyScheme(schemeType) && activeHarmonyParams && (
+                <HarmonyParamControls
+                  schema={harmonyParamSchemas[schemeType]}
+                  values={activeHarmonyParams}
+                  onChange={(changes) => setHarmonyParams(prev => ({ ...prev, [schemeType]: { ...activeHarmonyParams, ...changes } }))}
+                  onReset={() => setHarmonyParams(prev => ({ ...prev, [schemeType]: undefined }))}
+                />
+              )}
+
+              {/* Variante dello schema Material 3 */}
+              {schemeType === 'Material' && (
+                <div className="flex flex-col">
+                  <label className="mb-2 text-sm font-medium text-gray-600 dark:text-gray-400">
+                    Variante Material:
+                  </label>
+                  <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                    {materialVariants.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        onClick={() => setMaterialVariant(value)}
+                        className={`text-xs font-semibold py-2 px-2 rounded-lg border-2 transition-all ${
+                          materialVariant === value
+                            ? 'bg-indigo-600 text-white border-indigo-700'
+                            : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        }`}
+                        aria-pressed={materialVariant === value}
+                        aria-label={`Seleziona variante ${label}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className='text-[11px] text-gray-500 dark:text-gray-400 mt-1'>
+                    Palette tonali in HCT (tinta, croma, tono): lo spazio colore non si applica.
+                  </p>
+                </div>
+              )}
+
+              {/* Numero di colori delle palette per grafici */}
+              {dataVizKinds[schemeType] && (
+                <div className="flex flex-col">
+                  <div className='flex justify-between items-center mb-1'>
+                    <label htmlFor="data-viz-count" className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                      Numero di colori:
+                    </label>
+                    <span className='text-sm font-mono text-indigo-600 dark:text-indigo-400'>{dataVizCount}</span>
+                  </div>
+                  <input
+                    type="range"
+                    id="data-viz-count"
+                    min={DATA_VIZ_COUNT.min}
+                    max={DATA_VIZ_COUNT.max}
+                    value={dataVizCount}
+                    onChange={(e) => setDataVizCount(parseInt(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-600"
+                  />
+                  <p className='text-[11px] text-gray-500 dark:text-gray-400 mt-1'>
+                    Scale in OKLCH a passi percettivamente uniformi; le categorie massimizzano il ΔE minimo anche con deficit visivi.
+                  </p>
+                </div>
+              )}
             </div>
 
             {/* Controlli Materiale */}
@@ -538,19 +830,81 @@ return (
                   className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-600"
                 />
                 <p className='text-[11px] text-gray-500 dark:text-gray-400 mt-1'>
-                  100% = Solido (Solid), 10% = Vetro/Plastica (Translucent).
+                  100% = Solido (Solid), 10% = Vetro/Plastica (Translucent). Salvata come canale alpha dei colori (#RRGGBBAA).
+                </p>
+              </div>
+
+              {/* Sfondo per la composizione dei colori trasparenti */}
+              <div className="flex flex-col">
+                <label className="mb-2 text-sm font-medium text-gray-600 dark:text-gray-400">
+                  Sfondo per il contrasto:
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {alphaBackdrops.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => setAlphaBackdrop(value)}
+                      className={`text-xs font-semibold py-2 px-2 rounded-lg border-2 transition-all ${
+                        alphaBackdrop === value
+                          ? 'bg-indigo-600 text-white border-indigo-700'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                      aria-pressed={alphaBackdrop === value}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <p className='text-[11px] text-gray-500 dark:text-gray-400 mt-1'>
+                  I colori trasparenti vengono composti su questo sfondo prima di calcolare il contrasto.
                 </p>
               </div>
             </div>
           </div>
         </div>
 
+        {/* Estrazione colori da immagine */}
+        <ImageExtractor
+          onUseAsBase={(hex) => setBaseColor(hex.toUpperCase())}
+          onSavePalette={(palette) => {
+            savePalette(palette);
+            setActiveTab('saved');
+          }}
+        />
+
+        {/* Simulazione deficit visivi */}
+        <VisionSimulationPanel
+          colors={visionColors}
+          mode={visionMode}
+          onModeChange={setVisionMode}
+        />
+
         {/* Visualizzazione Palette */}
         {generatedPalette.length > 0 ? (
           <div className="mt-8">
-            <h2 className="text-2xl font-bold mb-6 text-gray-800 dark:text-gray-200">
-              Palette Generata ({schemeType})
-            </h2>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+              <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">
+                Palette Generata ({schemeType})
+              </h2>
+              {/* Dizionario dei nomi mostrati sulle card */}
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Nomi:</span>
+                {colorDictionaries.map(dictionary => (
+                  <button
+                    key={dictionary.id}
+                    onClick={() => setNameDictionary(dictionary.id)}
+                    className={`text-xs font-semibold py-2 px-2 rounded-lg border-2 transition-all ${
+                      nameDictionary === dictionary.id
+                        ? 'bg-indigo-600 text-white border-indigo-700'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    }`}
+                    aria-pressed={nameDictionary === dictionary.id}
+                  >
+                    {dictionary.label}
+                  </button>
+                ))}
+              </div>
+            </div>
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
               {generatedPalette.map((color, index) => (
                 <ColorCard
@@ -558,13 +912,27 @@ return (
                   color={color.hex}
                   name={color.description}
                   reflectiveness={reflectiveness}
-                  opacity={opacity}
+                  backdrop={backdrop}
+                  simulation={visionMode}
+                  nameDictionary={nameDictionary}
+                  locked={lockedIndexes.has(index)}
+                  onToggleLock={() => handleToggleLock(index)}
                   onClick={() => handleColorSelect(color.hex)}
                   showHex={true}
                   showContrast={true}
                 />
               ))}
             </div>
+            {materialScheme && (
+              <div className="mt-6">
+                <MaterialSchemePanel scheme={materialScheme} />
+              </div>
+            )}
+            {dataVizKinds[schemeType] && (
+              <div className="mt-6">
+                <DataVizPreview colors={generatedPalette.map(c => c.hex)} kind={dataVizKinds[schemeType]} />
+              </div>
+            )}
             <p className="mt-6 text-sm text-gray-500 dark:text-gray-400 text-center italic">
               *Clicca su una casella di colore per selezionarla come colore primario.
             </p>
@@ -572,7 +940,7 @@ return (
         ) : (
           <div className="mt-8 text-center p-12 bg-white dark:bg-gray-800 rounded-xl shadow-lg">
             <p className="text-xl font-medium text-red-500 dark:text-red-400">
-              Inserisci un valore esadecimale valido (es. #RRGGBB) per generare la palette.
+              Inserisci un colore CSS valido (es. #4F46E5, rgb(79 70 229), oklch(0.51 0.23 277) o indigo) per generare la palette.
             </p>
           </div>
         )}
@@ -585,7 +953,10 @@ return (
                 <input
                   type="text"
                   value={paletteName}
-                  onChange={(e) => setPaletteName(e.target.value)}
+                  onChange={(e) => {
+                    autoName.current = false;
+                    setPaletteName(e.target.value);
+                  }}
                   className="bg-transparent border-b border-gray-300 dark:border-gray-600 focus:outline-none focus:border-primary-500 text-xl font-semibold text-gray-900 dark:text-white"
                   autoFocus
                   onBlur={handleSavePalette}
@@ -641,22 +1012,43 @@ return (
 
             <Button
               variant="primary"
-              onClick={handleExportPalette}
+              onClick={() => setIsExportOpen(true)}
               className="flex items-center gap-1.5"
-              aria-label="Esporta palette corrente come file JSON"
+              aria-label="Esporta palette corrente"
             >
               <ArrowDownTrayIcon className="h-4 w-4" />
-              Export JSON
+              Export
+            </Button>
+
+            <Button
+              variant="primary"
+              onClick={() => handleCopyLink('full')}
+              className="flex items-center gap-1.5"
+              aria-label="Copia link condivisibile con lo stato completo"
+            >
+              {copiedLink === 'full' ? <CheckIcon className="h-4 w-4" /> : <LinkIcon className="h-4 w-4" />}
+              {copiedLink === 'full' ? 'Link copiato!' : 'Share'}
+            </Button>
+
+            <Button
+              variant="ghost"
+              onClick={() => handleCopyLink('short')}
+              className="flex items-center gap-1.5"
+              aria-label="Copia link breve con i soli colori"
+              title={buildShortSharePath(currentPalette.colors)}
+            >
+              {copiedLink === 'short' ? <CheckIcon className="h-4 w-4" /> : <LinkIcon className="h-4 w-4" />}
+              {copiedLink === 'short' ? 'Copiato!' : 'Link breve'}
             </Button>
 
             <Button
               variant="outline"
               className="flex items-center gap-1.5"
               onClick={() => document.getElementById('import-palette')?.click()}
-              aria-label="Importa palette da file JSON"
+              aria-label="Importa palette da file (JSON, ASE, GPL, Sketch, Procreate, CSS)"
             >
               <DocumentArrowUpIcon className="h-4 w-4" />
-              Import JSON
+              Import
             </Button>
 
             {activeTab === 'current' && (
@@ -672,6 +1064,8 @@ return (
           </div>
         </div>
 
+        <HistoryTimeline onUndo={handleUndo} onRedo={handleRedo} onRestore={setCurrentPalette} />
+
         {/* Main Content */}
         <AnimatePresence mode="wait">
           <motion.div
@@ -691,16 +1085,22 @@ return (
                     <ColorCard
                       color={currentPalette.primary}
                       name="Primary"
+                      simulation={visionMode}
+                      nameDictionary={nameDictionary}
                       onClick={() => handleColorSelect(currentPalette.primary)}
                     />
                     <ColorCard
                       color={currentPalette.secondary}
                       name="Secondary"
+                      simulation={visionMode}
+                      nameDictionary={nameDictionary}
                       onClick={() => handleColorSelect(currentPalette.secondary)}
                     />
                     <ColorCard
                       color={currentPalette.accent}
                       name="Accent"
+                      simulation={visionMode}
+                      nameDictionary={nameDictionary}
                       onClick={() => handleColorSelect(currentPalette.accent)}
                     />
                   </div>
@@ -713,7 +1113,7 @@ return (
                     {currentPalette.colors.map((color, index) => (
                       <div
                         key={`${color}-${index}`}
-                        className="aspect-square rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-shadow cursor-pointer"
+                        className={`aspect-square rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-shadow cursor-pointer ${lockedIndexes.has(index) ? 'ring-2 ring-indigo-600 ring-offset-2 dark:ring-offset-gray-900' : ''}`}
                         style={{ backgroundColor: color }}
                         onClick={() => handleColorSelect(color)}
                         title={`${color.toUpperCase()}`}
@@ -724,6 +1124,22 @@ return (
                               {color.toUpperCase()}
                             </span>
                           </div>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleToggleLock(index);
+                            }}
+                            className={`absolute top-1 left-1 p-1 rounded-full bg-black/50 text-white transition-opacity ${lockedIndexes.has(index) ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+                            aria-pressed={lockedIndexes.has(index)}
+                            aria-label={lockedIndexes.has(index) ? 'Sblocca colore' : 'Blocca colore'}
+                            title={lockedIndexes.has(index) ? 'Sblocca colore' : 'Blocca colore'}
+                          >
+                            {lockedIndexes.has(index) ? (
+                              <LockClosedIcon className="h-3.5 w-3.5" />
+                            ) : (
+                              <LockOpenIcon className="h-3.5 w-3.5" />
+                            )}
+                          </button>
                         </div>
                       </div>
                     ))}
@@ -737,7 +1153,7 @@ return (
                     <div>
                       <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Analogous</h4>
                       <div className="grid grid-cols-5 gap-2">
-                        {generateAnalogous(currentPalette.primary).map((color: string, i: number) => (
+                        {generateAnalogous(currentPalette.primary, { space: harmonySpace }).map((color: string, i: number) => (
                           <div
                             key={`analogous-${i}`}
                             className="aspect-square rounded-md"
@@ -751,7 +1167,7 @@ return (
                     <div>
                       <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Triadic</h4>
                       <div className="grid grid-cols-3 gap-2">
-                        {generateTriadic(currentPalette.primary).map((color: string, i: number) => (
+                        {generateTriadic(currentPalette.primary, { space: harmonySpace }).map((color: string, i: number) => (
                           <div
                             key={`triadic-${i}`}
                             className="aspect-square rounded-md"
@@ -765,7 +1181,7 @@ return (
                     <div>
                       <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Monochromatic</h4>
                       <div className="grid grid-cols-5 gap-2">
-                        {generateMonochromatic(currentPalette.primary).map((color: string, i: number) => (
+                        {generateMonochromatic(currentPalette.primary, { space: harmonySpace }).map((color: string, i: number) => (
                           <div
                             key={`mono-${i}`}
                             className="aspect-square rounded-md"
@@ -777,82 +1193,81 @@ return (
                     </div>
                   </div>
                 </div>
+
+                {/* Contrast Matrix */}
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Contrast Matrix</h3>
+                  <ContrastMatrix
+                    colors={[...currentPalette.colors, currentPalette.background, currentPalette.text]}
+                    backdrop={backdrop}
+                  />
+                </div>
+
+                {/* Accessible Roles */}
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Accessible Roles</h3>
+                  <AccessibilityFixer palette={currentPalette} onApply={handleApplyFixes} />
+                </div>
+
+                {/* Semantic Roles */}
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Semantic Roles</h3>
+                  <RoleEditor
+                    palette={currentPalette}
+                    onChange={(palette, label) => {
+                      historyLabel.current = label;
+                      setCurrentPalette(palette);
+                    }}
+                  />
+                </div>
+
+                {/* Light & Dark Themes */}
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Light &amp; Dark Themes</h3>
+                  <ThemePairPanel
+                    palette={currentPalette}
+                    onChange={(themes) => {
+                      historyLabel.current = themes ? 'Tema abbinato' : 'Rimozione tema abbinato';
+                      setCurrentPalette(prev => ({ ...prev, themes }));
+                    }}
+                  />
+                </div>
+
+                {/* UI Preview */}
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">UI Preview</h3>
+                  <UiPreview palette={currentPalette} />
+                </div>
+
+                {/* Gradient Builder */}
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Gradient Builder</h3>
+                  <GradientBuilder
+                    colors={currentPalette.colors}
+                    onApplySteps={(colors) => {
+                      historyLabel.current = `Gradiente a ${colors.length} passi`;
+                      const name = autoName.current ? generatePaletteName(colors) : null;
+                      if (name) setPaletteName(name);
+                      setLockedIndexes(new Set());
+                      setCurrentPalette(prev => ({ ...prev, ...(name ? { name } : {}), colors }));
+                    }}
+                  />
+                </div>
               </div>
             ) : (
-              <div>
-                <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Saved Palettes</h3>
-
-                {palettes.length === 0 ? (
-                  <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg shadow">
-                    <SwatchIcon className="mx-auto h-12 w-12 text-gray-400" />
-                    <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-white">No saved palettes</h3>
-                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-                      Generate and save your first palette to see it here.
-                    </p>
-                    <div className="mt-6">
-                      <Button
-                        onClick={() => setActiveTab('current')}
-                        variant="primary"
-                      >
-                        <PlusIcon className="-ml-1 mr-2 h-5 w-5" />
-                        New Palette
-                      </Button>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {palettes.map((palette) => (
-                      <motion.div
-                        key={palette.name}
-                        className="bg-white dark:bg-gray-800 rounded-xl shadow-md overflow-hidden border border-gray-100 dark:border-gray-700"
-                        whileHover={{ y: -4, boxShadow: '0 10px 25px -5px rgba(0, 0, 0, 0.1), 0 8px 10px -6px rgba(0, 0, 0, 0.1)' }}
-                        transition={{ duration: 0.2 }}
-                      >
-                        <div className="p-4">
-                          <div className="flex justify-between items-start">
-                            <h4 className="font-medium text-gray-900 dark:text-white">{palette.name}</h4>
-                            <div className="flex space-x-2">
-                              <button
-                                onClick={() => {
-                                  setCurrentPalette(palette);
-                                  setActiveTab('current');
-                                }}
-                                className="text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300"
-                                title="Use this palette"
-                              >
-                                <CheckIcon className="h-5 w-5" />
-                              </button>
-                              <button
-                                onClick={() => deletePalette(palette.name)}
-                                className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
-                                title="Delete palette"
-                              >
-                                <TrashIcon className="h-5 w-5" />
-                              </button>
-                            </div>
-                          </div>
-                          <div className="mt-3 grid grid-cols-5 gap-1">
-                            {palette.colors.slice(0, 5).map((color, i) => (
-                              <div
-                                key={`${palette.name}-${i}`}
-                                className="aspect-square rounded"
-                                style={{ backgroundColor: color }}
-                                title={`${color.toUpperCase()}`}
-                              />
-                            ))}
-                          </div>
-                          <div className="mt-2 flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
-                            <span>{palette.colors.length} colors</span>
-                            <span>
-                              {new Date().toLocaleDateString()}
-                            </span>
-                          </div>
-                        </div>
-                      </motion.div>
-                    ))}
-                  </div>
-                )}
-              </div>
+              <PaletteLibrary
+                currentColors={currentPalette.colors}
+                onUse={(palette) => {
+                  historyLabel.current = `Palette ${palette.name}`;
+                  autoName.current = false;
+                  setLockedIndexes(new Set());
+                  setCurrentPalette(palette);
+                  setPaletteName(palette.name);
+                  restoreControls(palette);
+                  setActiveTab('current');
+                }}
+                onCreateNew={() => setActiveTab('current')}
+              />
             )}
           </motion.div>
         </AnimatePresence>
@@ -866,11 +1281,25 @@ return (
         </div>
       </footer>
 
+      <ExportPanel
+        palette={currentPalette}
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+      />
+
+      <ImportDialog
+        key={importPreview ? `${importPreview.name}-${importPreview.colors.length}` : 'empty'}
+        parsed={importPreview}
+        error={importError}
+        onApply={handleApplyImport}
+        onClose={handleCloseImport}
+      />
+
       {/* Hidden input for importing palettes */}
       <input
         id="import-palette"
         type="file"
-        accept=".json"
+        accept={importAccept}
         onChange={handleImportPalette}
         className="hidden"
       />
@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+import { harmonyOffsets, rotateHue } from '../utils/colorUtils';
+import { spreadForOffset } from '../utils/harmonyParams';
+import {
+  colorToWheel,
+  harmonyHue,
+  paintWheel,
+  wheelLightness,
+  wheelSpaces,
+  wheelToColor,
+  wheelToXY,
+  xyToWheel,
+  type WheelPoint,
+  type WheelSpace,
+} from '../utils/colorWheel';
+import type { HarmonyParams, HarmonySpace, HueHarmony } from '../types';
+
+interface ColorWheelProps {
+  baseColor: string;
+  colors: string[];
+  space: HarmonySpace;
+  // Armonia a rotazione di tinta attiva: i suoi colori diventano maniglie trascinabili
+  harmony: { scheme: HueHarmony; params: Partial<HarmonyParams> } | null;
+  onBaseChange: (color: string) => void;
+  onSpreadChange: (spread: number) => void;
+}
+
+// Risoluzione del canvas: la ruota viene poi scalata dal CSS
+const WHEEL_SIZE = 240;
+
+// Chiaro abbastanza da avere una tinta leggibile in entrambi gli spazi
+const HUE_PROBE_LIGHTNESS: Record<WheelSpace, number> = { hsl: 50, oklch: 0.65 };
+
+const selectorClass = (active: boolean) => cn(
+  'text-xs font-semibold py-2 px-2 rounded-lg border-2 transition-all',
+  active
+    ? 'bg-indigo-600 text-white border-indigo-700'
+    : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+);
+
+const toPercent = (point: WheelPoint) => {
+  const { x, y } = wheelToXY(point);
+  return { left: `${x * 100}%`, top: `${y * 100}%` };
+};
+
+const ColorWheel: React.FC<ColorWheelProps> = ({ baseColor, colors, space, harmony, onBaseChange, onSpreadChange }) => {
+  const [wheelSpace, setWheelSpace] = useState<WheelSpace>(space === 'hsl' ? 'hsl' : 'oklch');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const wheelRef = useRef<HTMLDivElement>(null);
+  // Maniglia trascinata ('base' o indice del colore nell'armonia) e luminosità fissata a inizio trascinamento
+  const dragging = useRef<'base' | number | null>(null);
+  const dragLightness = useRef(0);
+
+  // La ruota è una sezione alla luminosità della base; arrotondata per non ridisegnarla a ogni minima variazione
+  const lightness = wheelLightness(baseColor, wheelSpace);
+  const paintLightness = wheelSpace === 'hsl' ? lightness : Math.round(lightness * 100) / 100;
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    const image = context.createImageData(WHEEL_SIZE, WHEEL_SIZE);
+    paintWheel(image, wheelSpace, paintLightness);
+    context.putImageData(image, 0, 0);
+  }, [wheelSpace, paintLightness]);
+
+  // Un colore per ogni rotazione dell'armonia, base esclusa
+  const handles = useMemo(() => harmony
+    ? harmonyOffsets(harmony.scheme, harmony.params).flatMap((offset, index) => offset % 360 === 0 ? [] : [{
+      index,
+      color: rotateHue(baseColor, offset, space),
+      adjustable: spreadForOffset(harmony.scheme, harmony.params, index, offset) !== null,
+    }])
+    : [], [harmony, baseColor, space]);
+
+  const pointAt = (clientX: number, clientY: number): WheelPoint | null => {
+    const rect = wheelRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return null;
+    return xyToWheel((clientX - rect.left) / rect.width, (clientY - rect.top) / rect.height);
+  };
+
+  // Sposta una maniglia secondaria alla tinta indicata: l'angolo è misurato nello spazio dell'armonia
+  const moveHandle = (index: number, hue: number) => {
+    if (!harmony) return;
+    const probe = wheelToColor({ hue, radius: 0.5 }, wheelSpace, HUE_PROBE_LIGHTNESS[wheelSpace]);
+    const offset = harmonyHue(probe, space) - harmonyHue(baseColor, space);
+    const spread = spreadForOffset(harmony.scheme, harmony.params, index, offset);
+    if (spread !== null) onSpreadChange(spread);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>, handle: 'base' | number) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragging.current = handle;
+    dragLightness.current = lightness;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    const handle = dragging.current;
+    if (handle === null) return;
+    const point = pointAt(e.clientX, e.clientY);
+    if (!point) return;
+
+    if (handle === 'base') onBaseChange(wheelToColor(point, wheelSpace, dragLightness.current));
+    else moveHandle(handle, point.hue);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLButtonElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    dragging.current = null;
+  };
+
+  // Frecce: la base ruota di 1° (10° con Shift), le altre maniglie cambiano l'ampiezza
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, handle: 'base' | number) => {
+    const delta = { ArrowLeft: -1, ArrowDown: -1, ArrowRight: 1, ArrowUp: 1 }[e.key];
+    if (delta === undefined) return;
+    e.preventDefault();
+    const step = delta * (e.shiftKey ? 10 : 1);
+
+    if (handle === 'base') onBaseChange(rotateHue(baseColor, step, space));
+    else if (harmony?.params.spread !== undefined) onSpreadChange(harmony.params.spread + step);
+  };
+
+  const basePoint = colorToWheel(baseColor, wheelSpace);
+  const { x: baseX, y: baseY } = wheelToXY(basePoint);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Ruota dei colori:</span>
+        <div className="grid grid-cols-2 gap-2">
+          {wheelSpaces.map(({ value, label }) => (
+            <button key={value} onClick={() => setWheelSpace(value)} className={selectorClass(wheelSpace === value)} aria-pressed={wheelSpace === value}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div ref={wheelRef} className="relative mx-auto aspect-square w-full max-w-xs">
+        <canvas
+          ref={canvasRef}
+          width={WHEEL_SIZE}
+          height={WHEEL_SIZE}
+          className="h-full w-full rounded-full border border-gray-200 dark:border-gray-700"
+          aria-hidden="true"
+        />
+
+        {/* Raggi dalla base verso i colori dell'armonia */}
+        <svg viewBox="0 0 100 100" className="pointer-events-none absolute inset-0 h-full w-full">
+          {handles.map(({ index, color }) => {
+            const { x, y } = wheelToXY(colorToWheel(color, wheelSpace));
+            return <line key={index} x1={50} y1={50} x2={x * 100} y2={y * 100} stroke="white" strokeWidth="0.6" strokeDasharray="2 1.5" />;
+          })}
+          <line x1={50} y1={50} x2={baseX * 100} y2={baseY * 100} stroke="white" strokeWidth="0.8" />
+        </svg>
+
+        {/* Colori effettivi della palette (variazioni e blocchi inclusi) */}
+        {colors.map((color, i) => (
+          <span
+            key={`dot-${i}`}
+            className="pointer-events-none absolute h-2.5 w-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full border border-white shadow"
+            style={{ ...toPercent(colorToWheel(color, wheelSpace)), backgroundColor: color }}
+          />
+        ))}
+
+        {handles.map(({ index, color, adjustable }) => (
+          <button
+            key={index}
+            disabled={!adjustable}
+            onPointerDown={(e) => handlePointerDown(e, index)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onKeyDown={(e) => handleKeyDown(e, index)}
+            className={cn(
+              'absolute h-5 w-5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow-md touch-none',
+              adjustable ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'
+            )}
+            style={{ ...toPercent(colorToWheel(color, wheelSpace)), backgroundColor: color }}
+            title={adjustable ? `${color.toUpperCase()}: trascina per cambiare l'ampiezza` : color.toUpperCase()}
+            aria-label={`Colore dell'armonia ${color.toUpperCase()}`}
+          />
+        ))}
+
+        <button
+          onPointerDown={(e) => handlePointerDown(e, 'base')}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onKeyDown={(e) => handleKeyDown(e, 'base')}
+          className="absolute h-7 w-7 -translate-x-1/2 -translate-y-1/2 rounded-full border-[3px] border-white shadow-lg ring-2 ring-indigo-600 cursor-grab touch-none active:cursor-grabbing"
+          style={{ ...toPercent(basePoint), backgroundColor: baseColor }}
+          title={`Base ${baseColor.toUpperCase()}: trascina per ruotare l'armonia`}
+          role="slider"
+          aria-label="Tinta del colore base"
+          aria-valuemin={0}
+          aria-valuemax={360}
+          aria-valuenow={Math.round(basePoint.hue)}
+        />
+      </div>
+
+      <p className='text-[11px] text-gray-500 dark:text-gray-400'>
+        Trascina la base per ruotare l'intera armonia (la distanza dal centro ne regola la saturazione); trascina gli altri colori per cambiare l'ampiezza dell'angolo.
+      </p>
+    </div>
+  );
+};
+
+export default ColorWheel;
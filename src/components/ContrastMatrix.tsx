@@ -0,0 +1,136 @@
+import { useMemo } from 'react';
+import { cn } from '../lib/utils';
+import { compositeOver } from '../utils/colorUtils';
+import {
+  evaluateWcag,
+  getApcaContrast,
+  describeApca,
+  suggestPassingColor,
+  WCAG_THRESHOLDS,
+  type WcagResult
+} from '../utils/contrast';
+
+interface ContrastMatrixProps {
+  colors: string[];
+  // Sfondo su cui vengono composti i colori trasparenti
+  backdrop?: string;
+}
+
+interface MatrixCell extends WcagResult {
+  foreground: string;
+  background: string;
+  // Colori effettivi dopo la composizione, usati per mostrare la cella
+  shownForeground: string;
+  shownBackground: string;
+  apca: number;
+  suggestion: string | null;
+}
+
+const PassBadge: React.FC<{ label: string; pass: boolean }> = ({ label, pass }) => (
+  <span
+    className={cn(
+      'px-1 rounded text-[9px] font-semibold leading-4',
+      pass ? 'bg-green-600 text-white' : 'bg-red-600/80 text-white'
+    )}
+    title={`${label}: ${pass ? 'superato' : 'non superato'}`}
+  >
+    {label}
+  </span>
+);
+
+const ContrastMatrix: React.FC<ContrastMatrixProps> = ({ colors, backdrop = '#ffffff' }) => {
+  const unique = useMemo(() => [...new Set(colors.map(c => c.toLowerCase()))], [colors]);
+
+  // Righe = testo (primo piano), colonne = sfondo
+  const rows = useMemo<MatrixCell[][]>(
+    () => unique.map(foreground => unique.map(background => {
+      const wcag = evaluateWcag(foreground, background, backdrop);
+      const shownBackground = compositeOver(background, backdrop);
+      return {
+        ...wcag,
+        foreground,
+        background,
+        shownForeground: compositeOver(foreground, shownBackground),
+        shownBackground,
+        apca: getApcaContrast(foreground, background, backdrop),
+        suggestion: foreground !== background && !wcag.aaNormal
+          ? suggestPassingColor(foreground, background, WCAG_THRESHOLDS.aaNormal, backdrop)
+          : null,
+      };
+    })),
+    [unique, backdrop]
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="border-separate border-spacing-1 text-xs">
+        <thead>
+          <tr>
+            <th className="p-1 text-[10px] font-medium text-gray-500 dark:text-gray-400 text-left">
+              Testo ↓ / Sfondo →
+            </th>
+            {unique.map(background => (
+              <th key={background} className="p-1">
+                <div className="h-4 w-full rounded" style={{ backgroundColor: background }} />
+                <span className="font-mono text-[10px] text-gray-600 dark:text-gray-300">{background.toUpperCase()}</span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, i) => (
+            <tr key={unique[i]}>
+              <th className="p-1 text-left">
+                <div className="flex items-center gap-1.5">
+                  <span className="h-4 w-4 rounded" style={{ backgroundColor: unique[i] }} />
+                  <span className="font-mono text-[10px] text-gray-600 dark:text-gray-300">{unique[i].toUpperCase()}</span>
+                </div>
+              </th>
+              {row.map(cell => (
+                <td
+                  key={cell.background}
+                  className="min-w-28 rounded-md p-2 align-top"
+                  style={{ backgroundColor: cell.shownBackground, color: cell.shownForeground }}
+                >
+                  {cell.foreground === cell.background ? (
+                    <span className="opacity-50">—</span>
+                  ) : (
+                    <div className="space-y-1">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <span className="text-base font-semibold">Aa</span>
+                        <span className="font-mono">{cell.ratio.toFixed(2)}:1</span>
+                      </div>
+                      <div className="flex flex-wrap gap-0.5">
+                        <PassBadge label="AA" pass={cell.aaNormal} />
+                        <PassBadge label="AA+" pass={cell.aaLarge} />
+                        <PassBadge label="AAA" pass={cell.aaaNormal} />
+                        <PassBadge label="AAA+" pass={cell.aaaLarge} />
+                      </div>
+                      <div className="font-mono text-[10px]" title={describeApca(cell.apca)}>
+                        Lc {cell.apca.toFixed(1)}
+                      </div>
+                      {cell.suggestion && (
+                        <div
+                          className="flex items-center gap-1 rounded bg-white/90 px-1 py-0.5 text-[10px] text-gray-800"
+                          title="Colore più vicino che supera AA"
+                        >
+                          <span className="h-3 w-3 rounded-sm border border-gray-300" style={{ backgroundColor: cell.suggestion }} />
+                          <span className="font-mono">{cell.suggestion.toUpperCase()}</span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-[11px] text-gray-500 dark:text-gray-400">
+        AA/AAA = testo normale, AA+/AAA+ = testo grande (WCAG 2.2). Lc = contrasto APCA.
+      </p>
+    </div>
+  );
+};
+
+export default ContrastMatrix;
@@ -0,0 +1,129 @@
+import { useMemo } from 'react';
+import { cn } from '../lib/utils';
+import { CVD_CHECKS, minPairwiseDeltaE, type DataVizKind } from '../utils/dataViz';
+import { visionDeficiencies } from '../utils/colorVision';
+
+interface DataVizPreviewProps {
+  colors: string[];
+  kind: DataVizKind;
+}
+
+// Below this ΔE2000 two categories are hard to tell apart in a chart
+const DISTINGUISHABLE_DELTA_E = 10;
+
+const HEATMAP_COLUMNS = 16;
+const HEATMAP_ROWS = 8;
+
+// Dati di esempio deterministici, così l'anteprima non cambia a ogni render
+const barValue = (i: number) => 40 + ((i * 37) % 55);
+const lineValue = (series: number, x: number) => 45 + 25 * Math.sin(x / 2.2 + series * 1.3) + series * 3;
+// Campo continuo in [-1, 1] per la heatmap
+const fieldValue = (x: number, y: number) => Math.sin(x / 2.5) * Math.cos(y / 2) * 0.8 + (x / HEATMAP_COLUMNS - 0.5) * 0.4;
+
+const DataVizPreview: React.FC<DataVizPreviewProps> = ({ colors, kind }) => {
+  const count = colors.length;
+  // Colore per un valore normalizzato (0-1): le scale ordinate lo mappano sulla rampa
+  const colorFor = (t: number) => colors[Math.min(count - 1, Math.max(0, Math.floor(t * count)))];
+
+  const stats = useMemo(() => kind === 'categorical'
+    ? [
+      { label: 'Visione normale', value: minPairwiseDeltaE(colors) },
+      ...CVD_CHECKS.map(deficiency => ({
+        label: visionDeficiencies.find(v => v.value === deficiency)?.label ?? deficiency,
+        value: minPairwiseDeltaE(colors, deficiency),
+      })),
+    ]
+    : [], [colors, kind]);
+
+  // Barre: una per categoria, o valori crescenti/centrati per le scale ordinate
+  const bars = colors.map((color, i) => {
+    switch (kind) {
+      case 'categorical': return { color, height: barValue(i), offset: 0 };
+      case 'sequential': return { color, height: ((i + 1) / count) * 100, offset: 0 };
+      case 'diverging': {
+        const value = (i / (count - 1)) * 2 - 1;
+        return { color, height: Math.abs(value) * 50, offset: value < 0 ? 50 - Math.abs(value) * 50 : 50 };
+      }
+    }
+  });
+
+  // Linee: ogni categoria, oppure quattro serie ordinate prese lungo la rampa
+  const lineColors = kind === 'categorical'
+    ? colors
+    : [0.2, 0.45, 0.7, 0.95].map(colorFor);
+  const toPoints = (series: number) =>
+    Array.from({ length: 12 }, (_, x) => `${(x / 11) * 100},${50 - (lineValue(series, x) / 100) * 46}`).join(' ');
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 space-y-4">
+      {stats.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {stats.map(({ label, value }) => (
+            <span
+              key={label}
+              className={cn(
+                'text-xs font-mono px-2 py-1 rounded-md border',
+                value >= DISTINGUISHABLE_DELTA_E
+                  ? 'border-green-300 text-green-700 dark:border-green-700 dark:text-green-400'
+                  : 'border-yellow-300 text-yellow-700 dark:border-yellow-700 dark:text-yellow-400'
+              )}
+              title={`ΔE2000 minimo tra due colori (consigliato ≥ ${DISTINGUISHABLE_DELTA_E})`}
+            >
+              {label}: ΔE {value.toFixed(1)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Barre</h4>
+          <div className="relative h-32 flex items-end gap-1">
+            {bars.map(({ color, height, offset }, i) => (
+              <div key={`bar-${i}`} className="relative flex-1 h-full">
+                <div
+                  className="absolute inset-x-0 rounded-sm"
+                  style={{ bottom: `${offset}%`, height: `${height}%`, backgroundColor: color }}
+                  title={color.toUpperCase()}
+                />
+              </div>
+            ))}
+            {kind === 'diverging' && <div className="absolute inset-x-0 top-1/2 border-t border-gray-400 dark:border-gray-500" />}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Linee</h4>
+          <svg viewBox="0 0 100 50" className="w-full h-32" preserveAspectRatio="none">
+            {[10, 25, 40].map(y => (
+              <line key={y} x1="0" x2="100" y1={y} y2={y} className="stroke-gray-200 dark:stroke-gray-700" strokeWidth="0.5" />
+            ))}
+            {lineColors.map((color, series) => (
+              <polyline
+                key={`line-${series}`}
+                points={toPoints(series)}
+                fill="none"
+                stroke={color}
+                strokeWidth="1.5"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Heatmap</h4>
+          <div className="grid h-32 gap-px" style={{ gridTemplateColumns: `repeat(${HEATMAP_COLUMNS}, minmax(0, 1fr))` }}>
+            {Array.from({ length: HEATMAP_ROWS * HEATMAP_COLUMNS }, (_, cell) => {
+              const x = cell % HEATMAP_COLUMNS;
+              const y = Math.floor(cell / HEATMAP_COLUMNS);
+              return <div key={cell} style={{ backgroundColor: colorFor((fieldValue(x, y) + 1) / 2) }} />;
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataVizPreview;
@@ -0,0 +1,117 @@
+import { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CheckIcon, ClipboardDocumentIcon, ArrowDownTrayIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Button } from './ui/Button';
+import { cn, copyToClipboard, downloadFile } from '../lib/utils';
+import { exporters, getExporter, getExportFileName, type ExportFormat } from '../utils/exporters';
+import type { ColorPalette } from '../types';
+
+interface ExportPanelProps {
+  palette: ColorPalette;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ palette, isOpen, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('tailwind');
+  const [copied, setCopied] = useState(false);
+
+  const exporter = getExporter(format);
+  // L'anteprima si aggiorna a ogni modifica della palette
+  const output = useMemo(() => exporter.serialize(palette), [exporter, palette]);
+
+  const handleCopy = () => {
+    void copyToClipboard(output).then((success) => {
+      if (!success) return;
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  const handleDownload = () => {
+    downloadFile(output, getExportFileName(palette, exporter), exporter.mimeType);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <motion.div
+            className="w-full max-w-3xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ y: 20, opacity: 0 }}
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="export-panel-title"
+          >
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 id="export-panel-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+                Esporta "{palette.name}"
+              </h2>
+              <button
+                onClick={onClose}
+                className="p-1 rounded-md text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                aria-label="Chiudi esportazione"
+              >
+                <XMarkIcon className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {/* Selezione formato */}
+              <div className="flex flex-wrap gap-2" role="tablist">
+                {exporters.map((e) => (
+                  <button
+                    key={e.id}
+                    role="tab"
+                    aria-selected={format === e.id}
+                    onClick={() => setFormat(e.id)}
+                    className={cn(
+                      'text-xs font-semibold py-1.5 px-3 rounded-lg border-2 transition-all',
+                      format === e.id
+                        ? 'bg-indigo-600 text-white border-indigo-700'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    )}
+                  >
+                    {e.label}
+                  </button>
+                ))}
+              </div>
+
+              {/* Anteprima */}
+              <pre className="max-h-96 overflow-auto rounded-lg bg-gray-900 p-4 text-xs text-gray-100 font-mono">
+                <code>{output}</code>
+              </pre>
+
+              <div className="flex justify-between items-center">
+                <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+                  {getExportFileName(palette, exporter)}
+                </span>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={handleCopy} className="flex items-center gap-1.5">
+                    {copied ? <CheckIcon className="h-4 w-4" /> : <ClipboardDocumentIcon className="h-4 w-4" />}
+                    {copied ? 'Copiato!' : 'Copia'}
+                  </Button>
+                  <Button variant="primary" onClick={handleDownload} className="flex items-center gap-1.5">
+                    <ArrowDownTrayIcon className="h-4 w-4" />
+                    Scarica
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,327 @@
+import { useMemo, useRef, useState } from 'react';
+import { CheckIcon, ClipboardDocumentIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Button } from './ui/Button';
+import { cn, copyToClipboard, generateId } from '../lib/utils';
+import {
+  gradientSpaces,
+  gradientToCss,
+  gradientToCssValue,
+  gradientToSvg,
+  gradientTypes,
+  hueInterpolations,
+  sampleGradient,
+  sampleGradientSteps,
+} from '../utils/gradients';
+import type { Gradient, GradientStop } from '../types';
+
+interface GradientBuilderProps {
+  colors: string[];
+  onApplySteps: (colors: string[]) => void;
+}
+
+type GradientOutput = 'css' | 'svg' | 'steps';
+
+const outputs: { value: GradientOutput; label: string }[] = [
+  { value: 'css', label: 'CSS' },
+  { value: 'svg', label: 'SVG' },
+  { value: 'steps', label: 'Passi' },
+];
+
+const selectorClass = (active: boolean) => cn(
+  'text-xs font-semibold py-2 px-2 rounded-lg border-2 transition-all disabled:opacity-50',
+  active
+    ? 'bg-indigo-600 text-white border-indigo-700'
+    : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+);
+
+const clampPosition = (position: number) => Math.round(Math.min(100, Math.max(0, position)));
+
+// Il gradiente parte dal primo e dall'ultimo colore della palette
+const initialStops = (colors: string[]): GradientStop[] => [
+  { id: generateId(), color: colors[0] ?? '#4F46E5', position: 0 },
+  { id: generateId(), color: colors[colors.length - 1] ?? '#F59E0B', position: 100 },
+];
+
+const GradientBuilder: React.FC<GradientBuilderProps> = ({ colors, onApplySteps }) => {
+  const [gradient, setGradient] = useState<Gradient>(() => ({
+    type: 'linear',
+    angle: 90,
+    space: 'oklch',
+    hue: 'shorter',
+    stops: initialStops(colors),
+  }));
+  const [selectedId, setSelectedId] = useState(gradient.stops[0].id);
+  const [output, setOutput] = useState<GradientOutput>('css');
+  const [stepCount, setStepCount] = useState(7);
+  const [copied, setCopied] = useState(false);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const draggingId = useRef<string | null>(null);
+
+  const selected = gradient.stops.find(stop => stop.id === selectedId) ?? gradient.stops[0];
+  const steps = useMemo(() => sampleGradientSteps(gradient, stepCount), [gradient, stepCount]);
+  const outputText = useMemo(() => {
+    switch (output) {
+      case 'css': return gradientToCss(gradient);
+      case 'svg': return gradientToSvg(gradient);
+      case 'steps': return steps.map(color => color.toUpperCase()).join('\n');
+    }
+  }, [output, gradient, steps]);
+
+  const update = (changes: Partial<Gradient>) => setGradient(prev => ({ ...prev, ...changes }));
+  const updateStop = (id: string, changes: Partial<GradientStop>) =>
+    setGradient(prev => ({ ...prev, stops: prev.stops.map(stop => stop.id === id ? { ...stop, ...changes } : stop) }));
+
+  const positionAt = (clientX: number): number => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return clampPosition(((clientX - rect.left) / rect.width) * 100);
+  };
+
+  // Click sulla barra: nuovo stop con il colore che il gradiente ha in quel punto
+  const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const position = positionAt(e.clientX);
+    const stop = { id: generateId(), color: sampleGradient(gradient, position), position };
+    setGradient(prev => ({ ...prev, stops: [...prev.stops, stop] }));
+    setSelectedId(stop.id);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>, id: string) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draggingId.current = id;
+    setSelectedId(id);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (draggingId.current) updateStop(draggingId.current, { position: positionAt(e.clientX) });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLButtonElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    draggingId.current = null;
+  };
+
+  const handleStopKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, stop: GradientStop) => {
+    const delta = { ArrowLeft: -1, ArrowDown: -1, ArrowRight: 1, ArrowUp: 1 }[e.key];
+    if (delta === undefined) return;
+    e.preventDefault();
+    updateStop(stop.id, { position: clampPosition(stop.position + delta * (e.shiftKey ? 10 : 1)) });
+  };
+
+  const removeSelected = () => {
+    if (gradient.stops.length <= 2) return;
+    const stops = gradient.stops.filter(stop => stop.id !== selected.id);
+    update({ stops });
+    setSelectedId(stops[0].id);
+  };
+
+  const handleCopy = () => {
+    void copyToClipboard(outputText).then((success) => {
+      if (!success) return;
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="flex flex-col">
+          <span className="mb-2 text-sm font-medium text-gray-600 dark:text-gray-400">Tipo:</span>
+          <div className="grid grid-cols-3 gap-2">
+            {gradientTypes.map(({ value, label }) => (
+              <button key={value} onClick={() => update({ type: value })} className={selectorClass(gradient.type === value)} aria-pressed={gradient.type === value}>
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-col">
+          <span className="mb-2 text-sm font-medium text-gray-600 dark:text-gray-400">Interpolazione:</span>
+          <div className="grid grid-cols-3 gap-2">
+            {gradientSpaces.map(({ value, label }) => (
+              <button key={value} onClick={() => update({ space: value })} className={selectorClass(gradient.space === value)} aria-pressed={gradient.space === value}>
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-col">
+          <span className="mb-2 text-sm font-medium text-gray-600 dark:text-gray-400">Tinta (OKLCH):</span>
+          <div className="grid grid-cols-2 gap-2">
+            {hueInterpolations.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => update({ hue: value })}
+                disabled={gradient.space !== 'oklch'}
+                className={selectorClass(gradient.space === 'oklch' && gradient.hue === value)}
+                aria-pressed={gradient.hue === value}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {gradient.type !== 'radial' && (
+        <div className="flex flex-col">
+          <div className="flex justify-between items-center mb-1">
+            <label htmlFor="gradient-angle" className="text-sm font-medium text-gray-600 dark:text-gray-400">
+              {gradient.type === 'linear' ? 'Direzione:' : 'Angolo iniziale:'}
+            </label>
+            <span className="text-sm font-mono text-indigo-600 dark:text-indigo-400">{gradient.angle}°</span>
+          </div>
+          <input
+            type="range"
+            id="gradient-angle"
+            min="0"
+            max="360"
+            value={gradient.angle}
+            onChange={(e) => update({ angle: parseInt(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-600"
+          />
+        </div>
+      )}
+
+      {/* Anteprima */}
+      <div className="h-40 rounded-lg border border-gray-200 dark:border-gray-700" style={{ background: gradientToCssValue(gradient) }} />
+
+      {/* Barra degli stop: click per aggiungere, trascina per spostare */}
+      <div className="pt-2 pb-6">
+        <div
+          ref={trackRef}
+          onClick={handleTrackClick}
+          className="relative h-8 rounded-md border border-gray-300 dark:border-gray-600 cursor-copy"
+          style={{ background: gradientToCssValue({ ...gradient, type: 'linear', angle: 90 }) }}
+          title="Clicca per aggiungere uno stop"
+        >
+          {gradient.stops.map(stop => (
+            <button
+              key={stop.id}
+              onPointerDown={(e) => handlePointerDown(e, stop.id)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onClick={(e) => e.stopPropagation()}
+              onKeyDown={(e) => handleStopKeyDown(e, stop)}
+              className={cn(
+                'absolute top-full mt-1 h-5 w-5 -translate-x-1/2 rounded-full border-2 shadow cursor-grab touch-none active:cursor-grabbing',
+                stop.id === selected.id ? 'border-indigo-600 ring-2 ring-indigo-300' : 'border-white dark:border-gray-900'
+              )}
+              style={{ left: `${stop.position}%`, backgroundColor: stop.color }}
+              role="slider"
+              aria-label={`Stop ${stop.color.toUpperCase()}`}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={stop.position}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Stop selezionato */}
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="color"
+          value={selected.color}
+          onChange={(e) => updateStop(selected.id, { color: e.target.value })}
+          className="w-10 h-10 cursor-pointer border-none"
+          aria-label="Colore dello stop"
+        />
+        <div className="flex flex-wrap gap-1">
+          {colors.map((color, i) => (
+            <button
+              key={`${color}-${i}`}
+              onClick={() => updateStop(selected.id, { color })}
+              className="h-7 w-7 rounded border border-gray-300 dark:border-gray-600 transition-transform hover:scale-110"
+              style={{ backgroundColor: color }}
+              title={color.toUpperCase()}
+              aria-label={`Usa ${color.toUpperCase()} per lo stop`}
+            />
+          ))}
+        </div>
+        <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+          Posizione
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={selected.position}
+            onChange={(e) => updateStop(selected.id, { position: clampPosition(Number(e.target.value)) })}
+            className="w-16 px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono"
+          />
+          %
+        </label>
+        <Button variant="outline" size="sm" onClick={removeSelected} disabled={gradient.stops.length <= 2}>
+          <TrashIcon className="h-4 w-4 mr-1" />
+          Rimuovi stop
+        </Button>
+      </div>
+
+      {/* Confronto tra gli spazi di interpolazione */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400">Confronto interpolazione</h4>
+        {gradientSpaces.map(({ value, label }) => (
+          <div key={value} className="flex items-center gap-3">
+            <span className={cn('w-14 text-xs font-mono', gradient.space === value ? 'font-bold text-indigo-600 dark:text-indigo-400' : 'text-gray-600 dark:text-gray-400')}>
+              {label}
+            </span>
+            <div
+              className="flex-1 h-8 rounded-md border border-gray-200 dark:border-gray-700"
+              style={{ background: gradientToCssValue({ ...gradient, type: 'linear', angle: 90, space: value }) }}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Esportazione */}
+      <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex gap-2">
+            {outputs.map(({ value, label }) => (
+              <button key={value} onClick={() => setOutput(value)} className={selectorClass(output === value)} aria-pressed={output === value}>
+                {label}
+              </button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={handleCopy}>
+            {copied ? <CheckIcon className="h-4 w-4 mr-1" /> : <ClipboardDocumentIcon className="h-4 w-4 mr-1" />}
+            {copied ? 'Copiato' : 'Copia'}
+          </Button>
+        </div>
+
+        {output === 'steps' && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <label htmlFor="gradient-steps" className="text-sm font-medium text-gray-600 dark:text-gray-400">Passi:</label>
+              <input
+                type="range"
+                id="gradient-steps"
+                min="2"
+                max="12"
+                value={stepCount}
+                onChange={(e) => setStepCount(parseInt(e.target.value))}
+                className="w-40 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-600"
+              />
+              <span className="text-sm font-mono text-indigo-600 dark:text-indigo-400">{stepCount}</span>
+              <Button variant="primary" size="sm" onClick={() => onApplySteps(steps)}>
+                Usa come palette
+              </Button>
+            </div>
+            <div className="flex rounded-md overflow-hidden border border-gray-200 dark:border-gray-700">
+              {steps.map((color, i) => (
+                <div key={`${color}-${i}`} className="flex-1 h-10" style={{ backgroundColor: color }} title={color.toUpperCase()} />
+              ))}
+            </div>
+          </div>
+        )}
+
+        <pre className="max-h-64 overflow-auto rounded-lg bg-gray-900 p-4 text-xs text-gray-100 font-mono">
+          <code>{outputText}</code>
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+export default GradientBuilder;
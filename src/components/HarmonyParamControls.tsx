@@ -0,0 +1,67 @@
+import type { HarmonyParamSchema } from '../utils/harmonyParams';
+import type { HarmonyParams } from '../types';
+
+interface HarmonyParamControlsProps {
+  schema: HarmonyParamSchema;
+  values: Partial<HarmonyParams>;
+  onChange: (changes: Partial<HarmonyParams>) => void;
+  onReset: () => void;
+}
+
+// Controlli generati dallo schema dei parametri dello schema selezionato
+const HarmonyParamControls: React.FC<HarmonyParamControlsProps> = ({ schema, values, onChange, onReset }) => (
+  <div className="flex flex-col gap-4">
+    <div className="flex items-center justify-between">
+      <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Parametri dello schema:</span>
+      <button
+        onClick={onReset}
+        className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline"
+      >
+        Ripristina
+      </button>
+    </div>
+
+    {schema.fields.map((field) => {
+      const id = `harmony-${field.key}`;
+
+      if (field.kind === 'toggle') {
+        return (
+          <label key={field.key} htmlFor={id} className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              id={id}
+              checked={values.includeBase ?? true}
+              onChange={(e) => onChange({ includeBase: e.target.checked })}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            {field.label}
+          </label>
+        );
+      }
+
+      const value = values[field.key] ?? field.min;
+      return (
+        <div key={field.key} className="flex flex-col">
+          <div className='flex justify-between items-center mb-1'>
+            <label htmlFor={id} className="text-sm font-medium text-gray-600 dark:text-gray-400">
+              {field.label}:
+            </label>
+            <span className='text-sm font-mono text-indigo-600 dark:text-indigo-400'>{value}{field.unit ?? ''}</span>
+          </div>
+          <input
+            type="range"
+            id={id}
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={value}
+            onChange={(e) => onChange({ [field.key]: Number(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-600"
+          />
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default HarmonyParamControls;
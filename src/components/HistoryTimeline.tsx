@@ -0,0 +1,136 @@
+import { useEffect, useRef } from 'react';
+import { ArrowUturnLeftIcon, ArrowUturnRightIcon, ClockIcon } from '@heroicons/react/24/outline';
+import { Button } from './ui/Button';
+import { cn } from '../lib/utils';
+import { useHistoryStore, useCanUndo, useCanRedo } from '../store/useHistoryStore';
+import type { ColorPalette } from '../types';
+
+interface HistoryTimelineProps {
+  onUndo: () => void;
+  onRedo: () => void;
+  onRestore: (palette: ColorPalette) => void;
+}
+
+const limitOptions = [20, 50, 100, 200];
+
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({ onUndo, onRedo, onRestore }) => {
+  const past = useHistoryStore((state) => state.past);
+  const present = useHistoryStore((state) => state.present);
+  const future = useHistoryStore((state) => state.future);
+  const limit = useHistoryStore((state) => state.limit);
+  const jumpTo = useHistoryStore((state) => state.jumpTo);
+  const setLimit = useHistoryStore((state) => state.setLimit);
+  const clear = useHistoryStore((state) => state.clear);
+  const canUndo = useCanUndo();
+  const canRedo = useCanRedo();
+
+  const entries = [...past, ...(present ? [present] : []), ...future];
+  const stripRef = useRef<HTMLDivElement>(null);
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  // Mantiene visibile lo stato corrente scorrendo solo la timeline, non la pagina
+  useEffect(() => {
+    const strip = stripRef.current;
+    const current = currentRef.current;
+    if (!strip || !current) return;
+    strip.scrollLeft = current.offsetLeft - strip.offsetLeft - (strip.clientWidth - current.clientWidth) / 2;
+  }, [present?.id]);
+
+  const handleJump = (id: string) => {
+    const palette = jumpTo(id);
+    if (palette) onRestore(palette);
+  };
+
+  return (
+    <div className="mb-8 p-6 bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-indigo-100 dark:border-indigo-900/50">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <ClockIcon className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+          <h2 className="text-lg font-medium text-gray-700 dark:text-gray-300">Cronologia</h2>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {entries.length}/{limit}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="flex items-center gap-1.5"
+            aria-label="Annulla (Ctrl+Z)"
+            title="Annulla (Ctrl+Z)"
+          >
+            <ArrowUturnLeftIcon className="h-4 w-4" />
+            Annulla
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="flex items-center gap-1.5"
+            aria-label="Ripeti (Ctrl+Shift+Z)"
+            title="Ripeti (Ctrl+Shift+Z)"
+          >
+            <ArrowUturnRightIcon className="h-4 w-4" />
+            Ripeti
+          </Button>
+          <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            Limite:
+            <select
+              value={limit}
+              onChange={(e) => setLimit(parseInt(e.target.value))}
+              className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-xs text-gray-900 dark:text-white"
+            >
+              {limitOptions.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </label>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={clear}
+            disabled={!canUndo && !canRedo}
+          >
+            Svuota
+          </Button>
+        </div>
+      </div>
+
+      <div ref={stripRef} className="flex gap-2 overflow-x-auto pb-2">
+        {entries.map((entry) => {
+          const isCurrent = entry.id === present?.id;
+          const isFuture = future.some(f => f.id === entry.id);
+          return (
+            <button
+              key={entry.id}
+              ref={isCurrent ? currentRef : undefined}
+              onClick={() => handleJump(entry.id)}
+              className={cn(
+                'flex-shrink-0 w-28 p-1.5 rounded-lg border-2 text-left transition-all',
+                isCurrent
+                  ? 'border-indigo-600 bg-indigo-50 dark:bg-indigo-900/30'
+                  : 'border-gray-200 dark:border-gray-700 hover:border-indigo-300 dark:hover:border-indigo-700',
+                isFuture && 'opacity-50'
+              )}
+              aria-current={isCurrent ? 'step' : undefined}
+              title={`${entry.label} — ${new Date(entry.timestamp).toLocaleTimeString()}`}
+            >
+              <div className="flex h-5 rounded overflow-hidden">
+                {entry.palette.colors.map((color, i) => (
+                  <span key={i} className="flex-1" style={{ backgroundColor: color }} />
+                ))}
+              </div>
+              <span className="mt-1 block truncate text-[10px] text-gray-600 dark:text-gray-300">{entry.label}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryTimeline;
@@ -0,0 +1,262 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { PhotoIcon, SwatchIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { Button } from './ui/Button';
+import { LoadingSpinner } from './ui/loading-spinner';
+import { cn, getTextColor } from '../lib/utils';
+import {
+  quantizePixels,
+  paletteFromExtraction,
+  type ExtractedColor,
+  type QuantizeMethod,
+  type QuantizeRequest
+} from '../utils/quantize';
+import type { ColorPalette } from '../types';
+
+interface ImageExtractorProps {
+  onUseAsBase: (hex: string) => void;
+  onSavePalette: (palette: ColorPalette) => void;
+}
+
+// Lato massimo del canvas di campionamento: basta per i colori dominanti e resta veloce
+const SAMPLE_SIZE = 200;
+
+const methods: { value: QuantizeMethod; label: string }[] = [
+  { value: 'kmeans', label: 'k-means (OKLab)' },
+  { value: 'median-cut', label: 'Median cut' },
+];
+
+// Decodifica l'immagine su un canvas ridotto e restituisce i pixel RGBA
+const readImagePixels = async (file: File): Promise<Uint8ClampedArray> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas non disponibile');
+  }
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return context.getImageData(0, 0, width, height).data;
+};
+
+// Esegue la quantizzazione nel worker, con fallback sul thread principale
+const runQuantization = (request: QuantizeRequest): Promise<ExtractedColor[]> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(quantizePixels(request));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/quantize.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ExtractedColor[]>) => {
+      resolve(event.data);
+      worker.terminate();
+    };
+    worker.onerror = (event) => {
+      reject(new Error(event.message || 'Errore nel worker di quantizzazione'));
+      worker.terminate();
+    };
+    worker.postMessage(request);
+  });
+};
+
+const ImageExtractor: React.FC<ImageExtractorProps> = ({ onUseAsBase, onSavePalette }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [method, setMethod] = useState<QuantizeMethod>('kmeans');
+  const [count, setCount] = useState(5);
+  const [extracted, setExtracted] = useState<ExtractedColor[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Libera l'URL dell'anteprima quando cambia immagine
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Ricalcola quando cambiano immagine, metodo o numero di colori
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    setIsProcessing(true);
+    setError(null);
+
+    readImagePixels(file)
+      .then((pixels) => runQuantization({ pixels, method, count, accentCount: 2 }))
+      .then((colors) => {
+        if (!cancelled) setExtracted(colors);
+      })
+      .catch((err: unknown) => {
+        console.error('Errore durante l\'estrazione dei colori:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Impossibile leggere l\'immagine');
+      })
+      .finally(() => {
+        if (!cancelled) setIsProcessing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, method, count]);
+
+  const handleFiles = useCallback((files: FileList | null) => {
+    const image = files?.[0];
+    if (!image) return;
+    if (!image.type.startsWith('image/')) {
+      setError('Il file selezionato non è un\'immagine');
+      return;
+    }
+    setFile(image);
+  }, []);
+
+  const handleSave = () => {
+    if (!file || extracted.length === 0) return;
+    const name = file.name.replace(/\.[^.]+$/, '') || 'Image Palette';
+    onSavePalette(paletteFromExtraction(name, extracted));
+  };
+
+  return (
+    <div className="mb-8 p-6 bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-indigo-100 dark:border-indigo-900/50">
+      <h2 className="text-lg font-medium mb-4 text-gray-700 dark:text-gray-300">Estrai da immagine</h2>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Drop zone */}
+        <div
+          className={cn(
+            'flex flex-col items-center justify-center w-full lg:w-1/3 min-h-48 rounded-xl border-2 border-dashed cursor-pointer overflow-hidden transition-colors',
+            isDragging
+              ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20'
+              : 'border-gray-300 dark:border-gray-600 hover:border-indigo-400'
+          )}
+          onClick={() => inputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            handleFiles(e.dataTransfer.files);
+          }}
+          role="button"
+          aria-label="Trascina un'immagine o clicca per selezionarla"
+        >
+          {previewUrl ? (
+            <img src={previewUrl} alt="Immagine sorgente" className="max-h-48 object-contain" />
+          ) : (
+            <div className="text-center p-6 text-gray-500 dark:text-gray-400">
+              <PhotoIcon className="mx-auto h-10 w-10 mb-2" />
+              <p className="text-sm">Trascina qui un'immagine o clicca per selezionarla</p>
+            </div>
+          )}
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {/* Opzioni e risultati */}
+        <div className="flex flex-col w-full lg:w-2/3 gap-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex gap-2">
+              {methods.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setMethod(value)}
+                  className={cn(
+                    'text-xs font-semibold py-2 px-3 rounded-lg border-2 transition-all',
+                    method === value
+                      ? 'bg-indigo-600 text-white border-indigo-700'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  )}
+                  aria-pressed={method === value}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              Colori:
+              <input
+                type="range"
+                min="3"
+                max="10"
+                value={count}
+                onChange={(e) => setCount(parseInt(e.target.value))}
+                className="w-32 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-600"
+              />
+              <span className="font-mono text-indigo-600 dark:text-indigo-400">{count}</span>
+            </label>
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {isProcessing ? (
+            <div className="flex items-center justify-center h-32">
+              <LoadingSpinner />
+            </div>
+          ) : extracted.length > 0 && (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+                {extracted.map((color) => (
+                  <motion.div
+                    key={`${color.hex}-${color.accent ? 'accent' : 'dominant'}`}
+                    className="rounded-lg overflow-hidden shadow-sm border border-gray-200 dark:border-gray-700"
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                  >
+                    <div
+                      className="h-16 flex items-end p-1.5"
+                      style={{ backgroundColor: color.hex, color: getTextColor(color.hex) }}
+                    >
+                      <span className="text-[10px] font-mono">
+                        {color.hex.toUpperCase()}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between px-1.5 py-1 text-[11px] text-gray-600 dark:text-gray-300">
+                      <span>{color.accent ? 'Accento' : `${(color.coverage * 100).toFixed(1)}%`}</span>
+                      <button
+                        onClick={() => onUseAsBase(color.hex)}
+                        className="text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300"
+                        title="Usa come colore base"
+                        aria-label={`Usa ${color.hex.toUpperCase()} come colore base`}
+                      >
+                        <SwatchIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </motion.div>
+                ))}
+              </div>
+              <div>
+                <Button variant="primary" onClick={handleSave} className="flex items-center gap-1.5">
+                  <PlusIcon className="h-4 w-4" />
+                  Salva come palette
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageExtractor;
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Button } from './ui/Button';
+import { cn, getTextColor } from '../lib/utils';
+import { importers, type ParsedPalette } from '../utils/importers';
+
+interface ImportDialogProps {
+  parsed: ParsedPalette | null;
+  error: string | null;
+  onApply: (parsed: ParsedPalette, selectedIndexes: number[]) => void;
+  onClose: () => void;
+}
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ parsed, error, onApply, onClose }) => {
+  // Tutti i colori selezionati di default; il componente viene rimontato a ogni nuovo file
+  const [selected, setSelected] = useState<Set<number>>(
+    () => new Set(parsed?.colors.map((_, i) => i) ?? [])
+  );
+
+  const isOpen = parsed !== null || error !== null;
+  const formatLabel = importers.find(i => i.id === parsed?.format)?.label;
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const selectAll = (all: boolean) => {
+    setSelected(new Set(all && parsed ? parsed.colors.map((_, i) => i) : []));
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <motion.div
+            className="w-full max-w-2xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+            initial={{ y: 20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ y: 20, opacity: 0 }}
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="import-dialog-title"
+          >
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <div>
+                <h2 id="import-dialog-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {parsed ? `Importa "${parsed.name}"` : 'Importazione non riuscita'}
+                </h2>
+                {formatLabel && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Formato rilevato: {formatLabel}</p>
+                )}
+              </div>
+              <button
+                onClick={onClose}
+                className="p-1 rounded-md text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                aria-label="Chiudi importazione"
+              >
+                <XMarkIcon className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {error && (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  {error}
+                </p>
+              )}
+
+              {parsed && (
+                <>
+                  <div className="flex justify-between items-center text-xs text-gray-500 dark:text-gray-400">
+                    <span>{selected.size} di {parsed.colors.length} colori selezionati</span>
+                    <div className="flex gap-3">
+                      <button onClick={() => selectAll(true)} className="hover:underline">Seleziona tutti</button>
+                      <button onClick={() => selectAll(false)} className="hover:underline">Nessuno</button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 max-h-80 overflow-auto">
+                    {parsed.colors.map((color, index) => (
+                      <button
+                        key={`${color.hex}-${index}`}
+                        onClick={() => toggle(index)}
+                        className={cn(
+                          'relative aspect-square rounded-lg border-2 transition-all',
+                          selected.has(index) ? 'border-indigo-600' : 'border-transparent opacity-40'
+                        )}
+                        style={{ backgroundColor: color.hex }}
+                        title={color.name ? `${color.name} (${color.hex.toUpperCase()})` : color.hex.toUpperCase()}
+                        aria-pressed={selected.has(index)}
+                      >
+                        {selected.has(index) && (
+                          <CheckIcon className="absolute top-1 right-1 h-4 w-4" style={{ color: getTextColor(color.hex) }} />
+                        )}
+                        <span
+                          className="absolute bottom-1 left-1 right-1 text-[10px] font-mono truncate"
+                          style={{ color: getTextColor(color.hex) }}
+                        >
+                          {color.hex.toUpperCase()}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={onClose}>
+                  Annulla
+                </Button>
+                {parsed && (
+                  <Button
+                    variant="primary"
+                    disabled={selected.size === 0}
+                    onClick={() => onApply(parsed, [...selected].sort((a, b) => a - b))}
+                  >
+                    Applica
+                  </Button>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { CheckIcon, ClipboardDocumentIcon, MoonIcon, SunIcon } from '@heroicons/react/24/outline';
+import { Button } from './ui/Button';
+import { copyToClipboard } from '../lib/utils';
+import { MATERIAL_ROLES, MATERIAL_TONES, materialRoleLabel, materialSchemeToJson } from '../utils/material';
+import { themeModes } from '../utils/themePairs';
+import type { MaterialPaletteKey, MaterialScheme } from '../types';
+
+interface MaterialSchemePanelProps {
+  scheme: MaterialScheme;
+}
+
+const paletteLabels: Record<MaterialPaletteKey, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  tertiary: 'Tertiary',
+  neutral: 'Neutral',
+  neutralVariant: 'Neutral variant',
+  error: 'Error',
+};
+
+const MaterialSchemePanel: React.FC<MaterialSchemePanelProps> = ({ scheme }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    void copyToClipboard(materialSchemeToJson(scheme)).then((success) => {
+      if (!success) return;
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Ruoli Material 3 generati da <span className="font-mono">{scheme.source.toUpperCase()}</span> per entrambi i temi.
+        </p>
+        <Button variant="outline" size="sm" onClick={handleCopy}>
+          {copied ? <CheckIcon className="h-4 w-4 mr-1" /> : <ClipboardDocumentIcon className="h-4 w-4 mr-1" />}
+          {copied ? 'Copiato' : 'Copia JSON'}
+        </Button>
+      </div>
+
+      {/* Palette tonali da cui vengono letti i ruoli */}
+      <div className="space-y-1">
+        {(Object.keys(scheme.palettes) as MaterialPaletteKey[]).map(key => (
+          <div key={key} className="flex items-center gap-2">
+            <span className="w-28 shrink-0 text-xs text-gray-600 dark:text-gray-400">{paletteLabels[key]}</span>
+            <div className="flex flex-1 rounded overflow-hidden border border-gray-200 dark:border-gray-700">
+              {MATERIAL_TONES.map(tone => (
+                <div
+                  key={tone}
+                  className="flex-1 h-6"
+                  style={{ backgroundColor: scheme.palettes[key][tone] }}
+                  title={`${paletteLabels[key]} ${tone} · ${scheme.palettes[key][tone].toUpperCase()}`}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {themeModes.map(({ value, label }) => {
+          const roles = scheme[value];
+          return (
+            <div key={value} className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-3">
+              <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                {value === 'light' ? <SunIcon className="h-4 w-4" /> : <MoonIcon className="h-4 w-4" />}
+                {label}
+              </div>
+              <div className="rounded-md p-2 grid grid-cols-2 gap-1" style={{ backgroundColor: roles.background }}>
+                {MATERIAL_ROLES.map(role => (
+                  <div key={role} className="flex items-center gap-2 min-w-0">
+                    <span className="h-5 w-5 shrink-0 rounded border border-black/10" style={{ backgroundColor: roles[role] }} />
+                    <span className="text-[10px] truncate" style={{ color: roles.onBackground }} title={roles[role].toUpperCase()}>
+                      {materialRoleLabel(role)} <span className="font-mono opacity-70">{roles[role].toUpperCase()}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default MaterialSchemePanel;
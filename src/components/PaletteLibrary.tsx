@@ -0,0 +1,670 @@
+import { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  BarsArrowDownIcon,
+  BarsArrowUpIcon,
+  CheckIcon,
+  FolderIcon,
+  FolderPlusIcon,
+  MagnifyingGlassIcon,
+  PlusIcon,
+  SparklesIcon,
+  StarIcon,
+  SwatchIcon,
+  TagIcon,
+  TrashIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
+import { Button } from './ui/Button';
+import { Input } from './ui/input';
+import { cn, downloadFile, formatDate, formatHex } from '../lib/utils';
+import { usePaletteStore } from '../store/usePaletteStore';
+import {
+  sortPalettes,
+  searchPalettes,
+  collectTags,
+  librarySortOptions,
+  findSimilarPalettes,
+  similarityMetrics,
+  type LibrarySortKey,
+  type SimilarityMetric,
+  type SimilarPalette,
+  type SortDirection,
+  buildLibraryExport,
+  parseLibraryExport
+} from '../utils/library';
+import type { StoredPalette } from '../types';
+
+interface PaletteLibraryProps {
+  // Colori della palette corrente, usabili come query "trova simili"
+  currentColors: string[];
+  onUse: (palette: StoredPalette) => void;
+  onCreateNew: () => void;
+}
+
+// Filtro della barra laterale: tutte, preferite o una cartella (null = senza cartella)
+type LibraryView =
+  | { kind: 'all' }
+  | { kind: 'favorites' }
+  | { kind: 'folder'; folderId: string | null };
+
+// Valore del select "Sposta in…" per la radice della libreria
+const ROOT_FOLDER_VALUE = '__root__';
+
+const HEX_TOKEN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// "#4F46E5, ec4899 #abc" -> colori normalizzati, oppure l'elenco dei token non validi
+const parseColorQuery = (input: string): { colors: string[]; invalid: string[] } => {
+  const tokens = input.split(/[\s,;]+/).filter(Boolean);
+  return {
+    colors: tokens.filter(t => HEX_TOKEN.test(t)).map(formatHex),
+    invalid: tokens.filter(t => !HEX_TOKEN.test(t)),
+  };
+};
+
+const sidebarItemClass = (active: boolean) => cn(
+  'w-full flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg text-sm text-left transition-colors',
+  active
+    ? 'bg-indigo-600 text-white'
+    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+);
+
+interface LibraryCardProps {
+  palette: StoredPalette;
+  selected: boolean;
+  similarity?: SimilarPalette;
+  metricLabel?: string;
+  queryCount?: number;
+  onToggleSelect: () => void;
+  onUse: () => void;
+  onFindSimilar: () => void;
+}
+
+const LibraryCard: React.FC<LibraryCardProps> = ({
+  palette,
+  selected,
+  similarity,
+  metricLabel,
+  queryCount = 0,
+  onToggleSelect,
+  onUse,
+  onFindSimilar,
+}) => {
+  const updatePalette = usePaletteStore((state) => state.updatePalette);
+  const toggleFavorite = usePaletteStore((state) => state.toggleFavorite);
+  const deletePalette = usePaletteStore((state) => state.deletePalette);
+  const [tagDraft, setTagDraft] = useState('');
+
+  const addTag = () => {
+    if (!tagDraft.trim()) return;
+    updatePalette(palette.id, { tags: [...palette.tags, tagDraft] });
+    setTagDraft('');
+  };
+
+  return (
+    <motion.div
+      className={cn(
+        'bg-white dark:bg-gray-800 rounded-xl shadow-md overflow-hidden border',
+        selected ? 'border-indigo-500 ring-2 ring-indigo-500/40' : 'border-gray-100 dark:border-gray-700'
+      )}
+      whileHover={{ y: -4, boxShadow: '0 10px 25px -5px rgba(0, 0, 0, 0.1), 0 8px 10px -6px rgba(0, 0, 0, 0.1)' }}
+      transition={{ duration: 0.2 }}
+    >
+      <div className="p-4">
+        <div className="flex justify-between items-start gap-2">
+          <label className="flex items-center gap-2 min-w-0">
+            <input
+              type="checkbox"
+              checked={selected}
+              onChange={onToggleSelect}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              aria-label={`Seleziona ${palette.name}`}
+            />
+            <h4 className="font-medium text-gray-900 dark:text-white truncate">{palette.name}</h4>
+          </label>
+          <div className="flex space-x-2 flex-shrink-0">
+            <button
+              onClick={() => toggleFavorite(palette.id)}
+              className="text-yellow-500 hover:text-yellow-600"
+              title={palette.favorite ? 'Rimuovi dai preferiti' : 'Aggiungi ai preferiti'}
+              aria-pressed={palette.favorite}
+            >
+              {palette.favorite ? <StarSolidIcon className="h-5 w-5" /> : <StarIcon className="h-5 w-5" />}
+            </button>
+            <button
+              onClick={onFindSimilar}
+              className="text-gray-500 hover:text-indigo-600 dark:text-gray-400 dark:hover:text-indigo-400"
+              title="Trova palette simili"
+            >
+              <SparklesIcon className="h-5 w-5" />
+            </button>
+            <button
+              onClick={onUse}
+              className="text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300"
+              title="Use this palette"
+            >
+              <CheckIcon className="h-5 w-5" />
+            </button>
+            <button
+              onClick={() => deletePalette(palette.id)}
+              className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+              title="Delete palette"
+            >
+              <TrashIcon className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-3 flex h-10 gap-0.5">
+          {palette.colors.map((color, i) => {
+            const matching = similarity?.matchingIndexes.has(i) ?? false;
+            return (
+              <div
+                key={`${palette.id}-${i}`}
+                className={cn(
+                  'flex-1 rounded-sm transition-all',
+                  similarity && (matching ? 'ring-2 ring-indigo-600 ring-offset-1 dark:ring-offset-gray-800 scale-y-110' : 'opacity-40')
+                )}
+                style={{ backgroundColor: color }}
+                title={`${color.toUpperCase()}${matching ? ' (simile)' : ''}`}
+              />
+            );
+          })}
+        </div>
+
+        {similarity && (
+          <p className="mt-2 text-xs text-indigo-700 dark:text-indigo-300">
+            {metricLabel} medio {similarity.distance.toFixed(similarity.distance < 1 ? 3 : 1)}
+            {queryCount > 1 && ` · ${similarity.matchedQueries}/${queryCount} colori trovati`}
+          </p>
+        )}
+
+        <div className="mt-3 flex flex-wrap items-center gap-1">
+          {palette.tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-0.5 rounded-full bg-gray-100 dark:bg-gray-700 px-2 py-0.5 text-[11px] text-gray-700 dark:text-gray-300"
+            >
+              #{tag}
+              <button
+                onClick={() => updatePalette(palette.id, { tags: palette.tags.filter(t => t !== tag) })}
+                className="hover:text-red-600"
+                aria-label={`Rimuovi tag ${tag}`}
+              >
+                <XMarkIcon className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            value={tagDraft}
+            onChange={(e) => setTagDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addTag()}
+            onBlur={addTag}
+            placeholder="+ tag"
+            className="w-16 bg-transparent text-[11px] text-gray-600 dark:text-gray-300 focus:outline-none placeholder:text-gray-400"
+            aria-label="Aggiungi tag"
+          />
+        </div>
+
+        <div className="mt-2 flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>{palette.colors.length} colors</span>
+          <span title={`Modificata: ${formatDate(palette.updatedAt)}`}>
+            {formatDate(palette.createdAt)}
+          </span>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+const PaletteLibrary: React.FC<PaletteLibraryProps> = ({ currentColors, onUse, onCreateNew }) => {
+  const palettes = usePaletteStore((state) => state.palettes);
+  const folders = usePaletteStore((state) => state.folders);
+  const deletePalettes = usePaletteStore((state) => state.deletePalettes);
+  const movePalettes = usePaletteStore((state) => state.movePalettes);
+  const createFolder = usePaletteStore((state) => state.createFolder);
+  const deleteFolder = usePaletteStore((state) => state.deleteFolder);
+  const importPalettes = usePaletteStore((state) => state.importPalettes);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importMessage, setImportMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const [view, setView] = useState<LibraryView>({ kind: 'all' });
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState<LibrarySortKey>('updatedAt');
+  const [direction, setDirection] = useState<SortDirection>('desc');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [folderDraft, setFolderDraft] = useState('');
+  const [similarInput, setSimilarInput] = useState('');
+  const [similarQuery, setSimilarQuery] = useState<string[]>([]);
+  const [metric, setMetric] = useState<SimilarityMetric>('ciede2000');
+  const [tolerance, setTolerance] = useState(similarityMetrics[0].defaultTolerance);
+
+  const metricInfo = similarityMetrics.find(m => m.value === metric) ?? similarityMetrics[0];
+  const parsedInput = parseColorQuery(similarInput);
+
+  const tags = useMemo(() => collectTags(palettes), [palettes]);
+
+  const filtered = useMemo(() => {
+    const inView = palettes.filter((palette) => {
+      if (view.kind === 'favorites' && !palette.favorite) return false;
+      if (view.kind === 'folder' && palette.folderId !== view.folderId) return false;
+      return !tagFilter || palette.tags.includes(tagFilter);
+    });
+    return searchPalettes(inView, query);
+  }, [palettes, view, tagFilter, query]);
+
+  // Con una query di similarità l'ordine è per distanza, altrimenti quello scelto
+  const similar = useMemo(
+    () => (similarQuery.length > 0 ? findSimilarPalettes(filtered, similarQuery, tolerance, metric) : null),
+    [filtered, similarQuery, tolerance, metric]
+  );
+  const visible = useMemo(
+    () => similar?.map(result => result.palette) ?? sortPalettes(filtered, sortKey, direction),
+    [similar, filtered, sortKey, direction]
+  );
+  const similarById = useMemo(
+    () => new Map(similar?.map(result => [result.palette.id, result])),
+    [similar]
+  );
+
+  // La selezione considera solo le palette ancora esistenti
+  const selected = palettes.filter(p => selectedIds.has(p.id));
+  const allVisibleSelected = visible.length > 0 && visible.every(p => selectedIds.has(p.id));
+
+  const toggleSelect = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visible.map(p => p.id)));
+  };
+
+  const runSimilarSearch = (colors: string[]) => {
+    setSimilarQuery(colors);
+    setSimilarInput(colors.map(c => c.toUpperCase()).join(' '));
+  };
+
+  const handleMetricChange = (value: SimilarityMetric) => {
+    setMetric(value);
+    setTolerance(similarityMetrics.find(m => m.value === value)?.defaultTolerance ?? tolerance);
+  };
+
+  const handleCreateFolder = () => {
+    if (!folderDraft.trim()) return;
+    const folder = createFolder(folderDraft);
+    setFolderDraft('');
+    setView({ kind: 'folder', folderId: folder.id });
+  };
+
+  const handleBulkDelete = () => {
+    if (!window.confirm(`Eliminare ${selected.length} palette?`)) return;
+    deletePalettes(selected.map(p => p.id));
+    setSelectedIds(new Set());
+  };
+
+  // Record completi (temi, ruoli, armonia, cartelle): il file si reimporta con "Importa libreria"
+  const handleBulkExport = () => {
+    downloadFile(buildLibraryExport(selected, folders), 'spectra-library.json', 'application/json');
+  };
+
+  const handleImportLibrary = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    // Reset per poter reimportare lo stesso file
+    event.target.value = '';
+
+    file.text()
+      .then((text) => {
+        const { palettes: records, folders: folderRecords } = parseLibraryExport(text);
+        const count = importPalettes(records, folderRecords);
+        setImportMessage({ text: `${count} palette importate`, error: false });
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : 'Errore sconosciuto';
+        setImportMessage({ text: `Importazione non riuscita: ${message}`, error: true });
+      });
+  };
+
+  const handleBulkMove = (value: string) => {
+    movePalettes(selected.map(p => p.id), value === ROOT_FOLDER_VALUE ? null : value);
+    setSelectedIds(new Set());
+  };
+
+  const isView = (candidate: LibraryView) =>
+    candidate.kind === view.kind &&
+    (candidate.kind !== 'folder' || (view.kind === 'folder' && candidate.folderId === view.folderId));
+
+  const importControl = (
+    <div className="mb-4 flex flex-wrap items-center gap-3">
+      <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()} className="flex items-center gap-1.5">
+        <ArrowUpTrayIcon className="h-4 w-4" />
+        Importa libreria
+      </Button>
+      <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImportLibrary} className="hidden" />
+      {importMessage && (
+        <span role="status" className={cn('text-sm', importMessage.error ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400')}>
+          {importMessage.text}
+        </span>
+      )}
+    </div>
+  );
+
+  if (palettes.length === 0) {
+    return (
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Saved Palettes</h3>
+        {importControl}
+        <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg shadow">
+          <SwatchIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-white">No saved palettes</h3>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Generate and save your first palette to see it here.
+          </p>
+          <div className="mt-6">
+            <Button onClick={onCreateNew} variant="primary">
+              <PlusIcon className="-ml-1 mr-2 h-5 w-5" />
+              New Palette
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+        Saved Palettes <span className="text-sm font-normal text-gray-500 dark:text-gray-400">({palettes.length})</span>
+      </h3>
+      {importControl}
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Cartelle, preferiti e tag */}
+        <aside className="lg:w-56 flex-shrink-0 space-y-4">
+          <div className="space-y-1">
+            <button className={sidebarItemClass(isView({ kind: 'all' }))} onClick={() => setView({ kind: 'all' })}>
+              <span className="flex items-center gap-2"><SwatchIcon className="h-4 w-4" />Tutte</span>
+              <span className="text-xs">{palettes.length}</span>
+            </button>
+            <button className={sidebarItemClass(isView({ kind: 'favorites' }))} onClick={() => setView({ kind: 'favorites' })}>
+              <span className="flex items-center gap-2"><StarIcon className="h-4 w-4" />Preferite</span>
+              <span className="text-xs">{palettes.filter(p => p.favorite).length}</span>
+            </button>
+            <button
+              className={sidebarItemClass(isView({ kind: 'folder', folderId: null }))}
+              onClick={() => setView({ kind: 'folder', folderId: null })}
+            >
+              <span className="flex items-center gap-2"><FolderIcon className="h-4 w-4" />Senza cartella</span>
+              <span className="text-xs">{palettes.filter(p => p.folderId === null).length}</span>
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            <h4 className="px-3 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">Cartelle</h4>
+            {folders.map((folder) => (
+              <div key={folder.id} className="group flex items-center gap-1">
+                <button
+                  className={sidebarItemClass(isView({ kind: 'folder', folderId: folder.id }))}
+                  onClick={() => setView({ kind: 'folder', folderId: folder.id })}
+                >
+                  <span className="flex items-center gap-2 truncate"><FolderIcon className="h-4 w-4 flex-shrink-0" />{folder.name}</span>
+                  <span className="text-xs">{palettes.filter(p => p.folderId === folder.id).length}</span>
+                </button>
+                <button
+                  onClick={() => {
+                    deleteFolder(folder.id);
+                    if (isView({ kind: 'folder', folderId: folder.id })) setView({ kind: 'all' });
+                  }}
+                  className="p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  title="Elimina cartella (le palette restano nella libreria)"
+                  aria-label={`Elimina cartella ${folder.name}`}
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <div className="flex items-center gap-1 px-1">
+              <input
+                type="text"
+                value={folderDraft}
+                onChange={(e) => setFolderDraft(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreateFolder()}
+                placeholder="Nuova cartella"
+                className="flex-1 min-w-0 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-xs text-gray-900 dark:text-white"
+              />
+              <button
+                onClick={handleCreateFolder}
+                className="p-1 text-gray-500 hover:text-indigo-600 dark:text-gray-400"
+                aria-label="Crea cartella"
+              >
+                <FolderPlusIcon className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+
+          {tags.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="px-3 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">Tag</h4>
+              <div className="flex flex-wrap gap-1 px-1">
+                {tags.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                    className={cn(
+                      'inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs transition-colors',
+                      tagFilter === tag
+                        ? 'bg-indigo-600 text-white'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    )}
+                    aria-pressed={tagFilter === tag}
+                  >
+                    <TagIcon className="h-3 w-3" />
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </aside>
+
+        <section className="flex-1 min-w-0 space-y-4">
+          {/* Ricerca e ordinamento */}
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="relative flex-1 min-w-48">
+              <MagnifyingGlassIcon className="pointer-events-none absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Cerca per nome, tag o colore (es. #4F46)"
+                className="pl-9"
+                aria-label="Cerca palette"
+              />
+            </div>
+            <select
+              value={sortKey}
+              onChange={(e) => setSortKey(e.target.value as LibrarySortKey)}
+              className="h-10 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 text-sm text-gray-900 dark:text-white"
+              aria-label="Ordina per"
+            >
+              {librarySortOptions.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <Button
+              variant="outline"
+              onClick={() => setDirection(direction === 'asc' ? 'desc' : 'asc')}
+              aria-label={direction === 'asc' ? 'Ordine crescente' : 'Ordine decrescente'}
+              title={direction === 'asc' ? 'Crescente' : 'Decrescente'}
+            >
+              {direction === 'asc' ? <BarsArrowUpIcon className="h-4 w-4" /> : <BarsArrowDownIcon className="h-4 w-4" />}
+            </Button>
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <input
+                type="checkbox"
+                checked={allVisibleSelected}
+                onChange={toggleSelectAll}
+                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Seleziona tutte
+            </label>
+          </div>
+
+          {/* Azioni multiple */}
+          {selected.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 rounded-lg bg-indigo-50 dark:bg-indigo-900/30 px-3 py-2 text-sm">
+              <span className="font-medium text-indigo-700 dark:text-indigo-300">{selected.length} selezionate</span>
+              <select
+                value=""
+                onChange={(e) => handleBulkMove(e.target.value)}
+                className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 text-xs text-gray-900 dark:text-white"
+                aria-label="Sposta in cartella"
+              >
+                <option value="" disabled>Sposta in…</option>
+                <option value={ROOT_FOLDER_VALUE}>Senza cartella</option>
+                {folders.map((folder) => (
+                  <option key={folder.id} value={folder.id}>{folder.name}</option>
+                ))}
+              </select>
+              <Button variant="outline" size="sm" onClick={handleBulkExport} className="flex items-center gap-1.5">
+                <ArrowDownTrayIcon className="h-4 w-4" />
+                Esporta
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleBulkDelete} className="flex items-center gap-1.5 text-red-600 dark:text-red-400">
+                <TrashIcon className="h-4 w-4" />
+                Elimina
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                Annulla selezione
+              </Button>
+            </div>
+          )}
+
+          {/* Ricerca per similarità percettiva */}
+          <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <SparklesIcon className="h-4 w-4 text-indigo-500" />
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Trova simili</span>
+              <input
+                type="text"
+                value={similarInput}
+                onChange={(e) => setSimilarInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && parsedInput.invalid.length === 0 && runSimilarSearch(parsedInput.colors)}
+                placeholder="#4F46E5 oppure più colori separati da spazi"
+                className={cn(
+                  'flex-1 min-w-48 rounded-md border bg-white dark:bg-gray-800 px-2 py-1 text-sm font-mono text-gray-900 dark:text-white',
+                  parsedInput.invalid.length > 0 ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+                )}
+                aria-label="Colori da cercare"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runSimilarSearch(parsedInput.colors)}
+                disabled={parsedInput.colors.length === 0 || parsedInput.invalid.length > 0}
+              >
+                Cerca
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => runSimilarSearch(currentColors)}>
+                Palette corrente
+              </Button>
+              {similarQuery.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setSimilarQuery([]);
+                    setSimilarInput('');
+                  }}
+                >
+                  <XMarkIcon className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            {parsedInput.invalid.length > 0 && (
+              <p className="text-xs text-red-600 dark:text-red-400">
+                Valori non validi: {parsedInput.invalid.join(', ')}
+              </p>
+            )}
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex gap-2">
+                {similarityMetrics.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => handleMetricChange(value)}
+                    className={cn(
+                      'text-xs font-semibold py-1 px-2 rounded-lg border-2 transition-all',
+                      metric === value
+                        ? 'bg-indigo-600 text-white border-indigo-700'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    )}
+                    aria-pressed={metric === value}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                Tolleranza:
+                <input
+                  type="range"
+                  min={metricInfo.min}
+                  max={metricInfo.max}
+                  step={metricInfo.step}
+                  value={tolerance}
+                  onChange={(e) => setTolerance(parseFloat(e.target.value))}
+                  className="w-32 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-600"
+                />
+                <span className="font-mono text-indigo-600 dark:text-indigo-400">{tolerance}</span>
+              </label>
+              {similarQuery.length > 0 && (
+                <div className="flex items-center gap-1">
+                  {similarQuery.map((color, i) => (
+                    <span key={`${color}-${i}`} className="h-5 w-5 rounded border border-gray-300 dark:border-gray-600" style={{ backgroundColor: color }} title={color} />
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {visible.length === 0 ? (
+            <p className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+              {similar ? 'Nessuna palette entro la tolleranza scelta.' : 'Nessuna palette corrisponde ai filtri.'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6">
+              {visible.map((palette) => (
+                <LibraryCard
+                  key={palette.id}
+                  palette={palette}
+                  selected={selectedIds.has(palette.id)}
+                  similarity={similarById.get(palette.id)}
+                  metricLabel={metricInfo.label}
+                  queryCount={similarQuery.length}
+                  onToggleSelect={() => toggleSelect(palette.id)}
+                  onUse={() => onUse(palette)}
+                  onFindSimilar={() => runSimilarSearch(palette.colors)}
+                />
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default PaletteLibrary;
@@ -0,0 +1,142 @@
+import { useMemo, useState } from 'react';
+import { SparklesIcon } from '@heroicons/react/24/outline';
+import { cn } from '../lib/utils';
+import { resolveSemanticRoles, SEMANTIC_ROLE_GROUPS, semanticRoleLabels } from '../utils/semanticRoles';
+import { THEME_ROLE_KEYS } from '../utils/themePairs';
+import type { ColorPalette, SemanticRole, ThemeRoles } from '../types';
+
+interface RoleEditorProps {
+  palette: ColorPalette;
+  onChange: (palette: ColorPalette, label: string) => void;
+}
+
+type EditableRole = keyof ThemeRoles | SemanticRole;
+
+const baseRoleLabels: Record<keyof ThemeRoles, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  accent: 'Accent',
+  background: 'Background',
+  text: 'Text',
+};
+
+const isBaseRole = (role: EditableRole): role is keyof ThemeRoles =>
+  (THEME_ROLE_KEYS as readonly string[]).includes(role);
+
+const roleLabel = (role: EditableRole): string =>
+  isBaseRole(role) ? baseRoleLabels[role] : semanticRoleLabels[role];
+
+const RoleEditor: React.FC<RoleEditorProps> = ({ palette, onChange }) => {
+  const [activeRole, setActiveRole] = useState<EditableRole>('primary');
+  const semantic = useMemo(() => resolveSemanticRoles(palette), [palette]);
+
+  const colorOf = (role: EditableRole): string => isBaseRole(role) ? palette[role] : semantic[role];
+  const assignedIndex = (role: EditableRole): number | undefined => {
+    if (isBaseRole(role)) {
+      const index = palette.colors.findIndex(c => c.toLowerCase() === palette[role].toLowerCase());
+      return index >= 0 ? index : undefined;
+    }
+    const index = palette.roleAssignments?.[role];
+    return index !== undefined && index < palette.colors.length ? index : undefined;
+  };
+
+  // I ruoli base prendono il colore, quelli semantici il riferimento al campione
+  const assign = (index: number) => {
+    const label = `Ruolo ${roleLabel(activeRole)}`;
+    if (isBaseRole(activeRole)) {
+      onChange({ ...palette, [activeRole]: palette.colors[index] }, label);
+    } else {
+      onChange({ ...palette, roleAssignments: { ...palette.roleAssignments, [activeRole]: index } }, label);
+    }
+  };
+
+  const resetToAuto = () => {
+    if (isBaseRole(activeRole)) return;
+    const roleAssignments = { ...palette.roleAssignments };
+    delete roleAssignments[activeRole];
+    onChange({ ...palette, roleAssignments }, `Ruolo ${roleLabel(activeRole)} automatico`);
+  };
+
+  const renderRole = (role: EditableRole) => {
+    const index = assignedIndex(role);
+    const pinned = isBaseRole(role) || palette.roleAssignments?.[role] !== undefined;
+
+    return (
+      <button
+        key={role}
+        onClick={() => setActiveRole(role)}
+        className={cn(
+          'flex items-center gap-2 p-2 rounded-lg border-2 text-left transition-all',
+          activeRole === role
+            ? 'border-indigo-600 bg-indigo-50 dark:bg-indigo-900/30'
+            : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+        )}
+        aria-pressed={activeRole === role}
+      >
+        <span className="h-8 w-8 shrink-0 rounded border border-gray-300 dark:border-gray-600" style={{ backgroundColor: colorOf(role) }} />
+        <span className="min-w-0">
+          <span className="block text-xs font-medium text-gray-800 dark:text-gray-200 truncate">{roleLabel(role)}</span>
+          <span className="block text-[10px] font-mono text-gray-500 dark:text-gray-400">
+            {colorOf(role).toUpperCase()}
+            {pinned && index !== undefined ? ` · #${index + 1}` : ''}
+            {!pinned ? ' · auto' : ''}
+          </span>
+        </span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 space-y-4">
+      <div>
+        <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Base</h4>
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-2">
+          {THEME_ROLE_KEYS.map(renderRole)}
+        </div>
+      </div>
+
+      {SEMANTIC_ROLE_GROUPS.map(group => (
+        <div key={group.label}>
+          <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">{group.label}</h4>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {group.roles.map(renderRole)}
+          </div>
+        </div>
+      ))}
+
+      {/* Assegnazione del ruolo attivo a un campione della palette */}
+      <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+          Assegna <span className="font-semibold text-gray-900 dark:text-white">{roleLabel(activeRole)}</span> a:
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          {palette.colors.map((color, i) => (
+            <button
+              key={`${color}-${i}`}
+              onClick={() => assign(i)}
+              className={cn(
+                'h-9 w-9 rounded-md border border-gray-300 dark:border-gray-600 transition-transform hover:scale-110',
+                assignedIndex(activeRole) === i && 'ring-2 ring-indigo-600 ring-offset-2 dark:ring-offset-gray-800'
+              )}
+              style={{ backgroundColor: color }}
+              title={`#${i + 1} ${color.toUpperCase()}`}
+              aria-label={`Assegna ${roleLabel(activeRole)} a ${color.toUpperCase()}`}
+            />
+          ))}
+          {!isBaseRole(activeRole) && (
+            <button
+              onClick={resetToAuto}
+              disabled={palette.roleAssignments?.[activeRole] === undefined}
+              className="flex items-center gap-1 text-xs font-semibold py-2 px-3 rounded-lg border-2 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              <SparklesIcon className="h-4 w-4" />
+              Automatico
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RoleEditor;
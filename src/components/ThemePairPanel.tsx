@@ -0,0 +1,108 @@
+import { useMemo } from 'react';
+import { CheckCircleIcon, ExclamationTriangleIcon, MoonIcon, SunIcon } from '@heroicons/react/24/outline';
+import { Button } from './ui/Button';
+import { cn } from '../lib/utils';
+import {
+  checkThemeContrast,
+  derivePairedThemes,
+  detectThemeMode,
+  THEME_ROLE_KEYS,
+  themeModes,
+} from '../utils/themePairs';
+import type { ColorPalette, ThemeMode, ThemeRoles } from '../types';
+
+interface ThemePairPanelProps {
+  palette: ColorPalette;
+  onChange: (themes: Record<ThemeMode, ThemeRoles> | undefined) => void;
+}
+
+const roleLabels: Record<keyof ThemeRoles, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  accent: 'Accent',
+  background: 'Background',
+  text: 'Text',
+};
+
+const ThemePairPanel: React.FC<ThemePairPanelProps> = ({ palette, onChange }) => {
+  const sourceMode = detectThemeMode(palette);
+  // Finché non viene salvato, il tema abbinato è solo un'anteprima
+  const themes = useMemo(() => palette.themes ?? derivePairedThemes(palette), [palette]);
+  const paired = palette.themes !== undefined;
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          La palette è {sourceMode === 'light' ? 'chiara' : 'scura'}: il tema {sourceMode === 'light' ? 'scuro' : 'chiaro'} viene
+          derivato rimappando la luminosità in OKLCH e mantenendo la tinta.
+        </p>
+        {paired ? (
+          <Button variant="outline" size="sm" onClick={() => onChange(undefined)}>
+            Rimuovi tema abbinato
+          </Button>
+        ) : (
+          <Button variant="primary" size="sm" onClick={() => onChange(themes)}>
+            Abbina tema {sourceMode === 'light' ? 'scuro' : 'chiaro'}
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {themeModes.map(({ value, label }) => {
+          const roles = themes[value];
+          const checks = checkThemeContrast(roles);
+          const derived = value !== sourceMode;
+
+          return (
+            <div
+              key={value}
+              className={cn(
+                'rounded-lg border p-3 space-y-3',
+                derived && !paired ? 'border-dashed border-gray-300 dark:border-gray-600' : 'border-gray-200 dark:border-gray-700'
+              )}
+            >
+              <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                {value === 'light' ? <SunIcon className="h-4 w-4" /> : <MoonIcon className="h-4 w-4" />}
+                {label}
+                <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                  {derived ? (paired ? '· derivato' : '· anteprima') : '· originale'}
+                </span>
+              </div>
+
+              {/* Ruoli su sfondo del tema, per giudicarli nel loro contesto */}
+              <div className="rounded-md p-3 flex gap-2" style={{ backgroundColor: roles.background }}>
+                {THEME_ROLE_KEYS.filter(role => role !== 'background').map(role => (
+                  <div key={role} className="flex-1 text-center">
+                    <div className="h-8 rounded" style={{ backgroundColor: roles[role] }} title={roles[role].toUpperCase()} />
+                    <span className="text-[10px] font-mono" style={{ color: roles.text }}>{roles[role].toUpperCase()}</span>
+                  </div>
+                ))}
+              </div>
+
+              <ul className="space-y-1">
+                {checks.map(check => (
+                  <li key={check.role} className="flex items-center justify-between text-xs">
+                    <span className="text-gray-600 dark:text-gray-400">{roleLabels[check.role]} / {roleLabels.background}</span>
+                    <span
+                      className={cn(
+                        'flex items-center gap-1 font-mono',
+                        check.passes ? 'text-green-600 dark:text-green-400' : 'text-yellow-700 dark:text-yellow-400'
+                      )}
+                      title={`Minimo ${check.required}:1`}
+                    >
+                      {check.passes ? <CheckCircleIcon className="h-3.5 w-3.5" /> : <ExclamationTriangleIcon className="h-3.5 w-3.5" />}
+                      {check.ratio.toFixed(2)}:1
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ThemePairPanel;
@@ -0,0 +1,311 @@
+import { useMemo, useState } from 'react';
+import {
+  ChartBarIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  HomeIcon,
+  InformationCircleIcon,
+  UsersIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { Alert, AlertDescription, AlertTitle, Badge, Button, Card, CardContent, CardDescription, CardHeader, CardTitle, Input } from './ui';
+import { cn } from '../lib/utils';
+import { toPreviewVariables } from '../utils/previewTheme';
+import { derivePairedThemes, themeModes } from '../utils/themePairs';
+import { semanticRolesFor } from '../utils/semanticRoles';
+import type { ColorPalette } from '../types';
+
+type PreviewScene = 'dashboard' | 'landing' | 'form' | 'charts';
+
+const scenes: { value: PreviewScene; label: string }[] = [
+  { value: 'dashboard', label: 'Dashboard' },
+  { value: 'landing', label: 'Landing' },
+  { value: 'form', label: 'Form' },
+  { value: 'charts', label: 'Grafici' },
+];
+
+// Override delle classi dei componenti ui: ogni colore passa dalle variabili dell'anteprima,
+// anche le varianti dark:, così il tema dell'app non filtra dentro il riquadro
+const styles = {
+  card: 'bg-[rgb(var(--preview-surface))] border-[rgb(var(--preview-border))] text-text dark:bg-[rgb(var(--preview-surface))] dark:border-[rgb(var(--preview-border))]',
+  muted: 'text-[rgb(var(--preview-muted))] dark:text-[rgb(var(--preview-muted))]',
+  primaryButton: 'bg-primary text-[rgb(var(--preview-on-primary))] border-transparent hover:bg-primary/90 dark:bg-primary dark:text-[rgb(var(--preview-on-primary))] dark:hover:bg-primary/90',
+  secondaryButton: 'bg-secondary text-[rgb(var(--preview-on-secondary))] hover:bg-secondary/90 dark:bg-secondary dark:text-[rgb(var(--preview-on-secondary))] dark:hover:bg-secondary/90',
+  outlineButton: 'border-text/20 text-text hover:bg-text/5 dark:border-text/20 dark:text-text dark:hover:bg-text/5',
+  ghostButton: 'text-text/80 hover:bg-text/5 dark:text-text/80 dark:hover:bg-text/5',
+  input: 'bg-background text-text border-[rgb(var(--preview-border))] placeholder:text-text/40 focus:ring-primary dark:bg-background dark:text-text dark:border-[rgb(var(--preview-border))] dark:placeholder:text-text/40',
+  badge: 'bg-primary/15 text-primary dark:bg-primary/15 dark:text-primary',
+  accentBadge: 'bg-accent text-[rgb(var(--preview-on-accent))] dark:bg-accent dark:text-[rgb(var(--preview-on-accent))]',
+};
+
+// Stati dai ruoli semantici: fondo tenue, bordo e icona nel colore pieno, testo normale
+const statusStyles = {
+  success: 'bg-[rgb(var(--preview-success)/0.12)] border-[rgb(var(--preview-success)/0.5)] text-text dark:bg-[rgb(var(--preview-success)/0.12)] dark:text-text',
+  warning: 'bg-[rgb(var(--preview-warning)/0.12)] border-[rgb(var(--preview-warning)/0.5)] text-text dark:bg-[rgb(var(--preview-warning)/0.12)] dark:text-text',
+  error: 'bg-[rgb(var(--preview-error)/0.12)] border-[rgb(var(--preview-error)/0.5)] text-text dark:bg-[rgb(var(--preview-error)/0.12)] dark:text-text',
+  info: 'bg-[rgb(var(--preview-info)/0.12)] border-[rgb(var(--preview-info)/0.5)] text-text dark:bg-[rgb(var(--preview-info)/0.12)] dark:text-text',
+};
+
+// Dati fittizi per le scene
+const STATS = [
+  { label: 'Utenti attivi', value: '12.480', change: '+8,2%' },
+  { label: 'Conversioni', value: '3,6%', change: '+0,4%' },
+  { label: 'Ricavi', value: '€ 48.200', change: '+12%' },
+];
+const ACTIVITY = [
+  { name: 'Giulia R.', action: 'ha aggiornato il progetto', status: 'Completato' },
+  { name: 'Marco B.', action: 'ha aperto una richiesta', status: 'In attesa' },
+  { name: 'Sara L.', action: 'ha caricato 4 file', status: 'Nuovo' },
+];
+const BAR_DATA = [42, 68, 55, 80, 64, 92, 74];
+const LINE_DATA = [
+  [20, 34, 28, 46, 40, 58, 52, 70],
+  [12, 18, 24, 22, 32, 30, 42, 48],
+];
+
+interface SceneProps {
+  colors: string[];
+}
+
+const DashboardScene: React.FC<SceneProps> = () => (
+  <div className="flex gap-3">
+    <nav className="hidden sm:flex flex-col gap-1 w-28 shrink-0 text-xs">
+      {[
+        { icon: HomeIcon, label: 'Home', active: true },
+        { icon: ChartBarIcon, label: 'Report', active: false },
+        { icon: UsersIcon, label: 'Team', active: false },
+      ].map(({ icon: Icon, label, active }) => (
+        <span
+          key={label}
+          className={cn(
+            'flex items-center gap-2 px-2 py-1.5 rounded-md',
+            active ? 'bg-primary/15 text-primary font-semibold' : 'text-text/70'
+          )}
+        >
+          <Icon className="h-4 w-4" />
+          {label}
+        </span>
+      ))}
+    </nav>
+
+    <div className="flex-1 min-w-0 space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        {STATS.map(stat => (
+          <Card key={stat.label} className={cn(styles.card, 'p-3')}>
+            <p className={cn('text-[11px] truncate', styles.muted)}>{stat.label}</p>
+            <p className="text-base font-bold">{stat.value}</p>
+            <Badge className={cn(styles.badge, 'mt-1 px-1.5 text-[10px]')}>{stat.change}</Badge>
+          </Card>
+        ))}
+      </div>
+
+      <Card className={styles.card}>
+        <CardHeader className="p-3 pb-2">
+          <CardTitle className="text-sm">Attività recenti</CardTitle>
+        </CardHeader>
+        <CardContent className="p-3 pt-0 space-y-2">
+          {ACTIVITY.map(item => (
+            <div key={item.name} className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate">
+                <span className="font-semibold">{item.name}</span>{' '}
+                <span className={styles.muted}>{item.action}</span>
+              </span>
+              <Badge className={item.status === 'Nuovo' ? styles.accentBadge : styles.badge}>{item.status}</Badge>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  </div>
+);
+
+const LandingScene: React.FC<SceneProps> = () => (
+  <div className="relative overflow-hidden rounded-lg">
+    <div className="absolute -top-10 -right-10 h-40 w-40 rounded-full bg-accent/30 blur-2xl" />
+    <div className="absolute -bottom-12 -left-8 h-32 w-32 rounded-full bg-secondary/30 blur-2xl" />
+
+    <div className="relative flex items-center justify-between mb-6 text-xs">
+      <span className="font-bold text-primary">Spectra</span>
+      <span className={cn('hidden sm:flex gap-3', styles.muted)}>
+        <span>Prodotto</span>
+        <span>Prezzi</span>
+        <span>Blog</span>
+      </span>
+      <Button size="sm" variant="outline" className={styles.outlineButton}>Accedi</Button>
+    </div>
+
+    <div className="relative text-center py-4 space-y-3">
+      <Badge className={styles.badge}>Novità · v2.0</Badge>
+      <h3 className="text-2xl font-extrabold leading-tight">
+        Colori che <span className="text-primary">funzionano</span>{' '}
+        <span className="text-accent">ovunque</span>
+      </h3>
+      <p className={cn('text-sm max-w-xs mx-auto', styles.muted)}>
+        Genera, verifica ed esporta palette accessibili in pochi secondi.
+      </p>
+      <div className="flex justify-center gap-2 pt-1">
+        <Button size="sm" className={styles.primaryButton}>Inizia gratis</Button>
+        <Button size="sm" variant="ghost" className={styles.ghostButton}>Guarda la demo</Button>
+      </div>
+    </div>
+  </div>
+);
+
+const FormScene: React.FC<SceneProps> = () => (
+  <div className="space-y-3">
+    <Card className={styles.card}>
+      <CardHeader className="p-3 pb-2">
+        <CardTitle className="text-sm">Crea un account</CardTitle>
+        <CardDescription className={cn('text-xs', styles.muted)}>Bastano pochi dati.</CardDescription>
+      </CardHeader>
+      <CardContent className="p-3 pt-0 space-y-2">
+        <Input placeholder="Nome e cognome" className={cn(styles.input, 'h-8 text-xs')} readOnly />
+        <Input
+          placeholder="Email"
+          defaultValue="mario@esempio"
+          error
+          helperText="Indirizzo email non valido"
+          className={cn(styles.input, 'h-8 text-xs border-[rgb(var(--preview-error))] dark:border-[rgb(var(--preview-error))]')}
+          readOnly
+        />
+        <label className="flex items-center gap-2 text-xs">
+          <input type="checkbox" defaultChecked className="accent-[rgb(var(--color-primary))]" />
+          Accetto i termini del servizio
+        </label>
+        <div className="flex flex-wrap gap-2 pt-1">
+          <Button size="sm" className={styles.primaryButton}>Registrati</Button>
+          <Button size="sm" variant="secondary" className={styles.secondaryButton}>Bozza</Button>
+          <Button size="sm" variant="outline" className={styles.outlineButton}>Annulla</Button>
+        </div>
+      </CardContent>
+    </Card>
+
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      <Alert variant="success" className={cn(statusStyles.success, 'p-2')} icon={<CheckCircleIcon className="h-4 w-4 text-[rgb(var(--preview-success))]" />}>
+        <AlertTitle className="text-xs">Salvato</AlertTitle>
+        <AlertDescription className="text-[11px]">Modifiche applicate.</AlertDescription>
+      </Alert>
+      <Alert variant="warning" className={cn(statusStyles.warning, 'p-2')} icon={<ExclamationTriangleIcon className="h-4 w-4 text-[rgb(var(--preview-warning))]" />}>
+        <AlertTitle className="text-xs">Attenzione</AlertTitle>
+        <AlertDescription className="text-[11px]">Spazio quasi esaurito.</AlertDescription>
+      </Alert>
+      <Alert variant="destructive" className={cn(statusStyles.error, 'p-2')} icon={<XCircleIcon className="h-4 w-4 text-[rgb(var(--preview-error))]" />}>
+        <AlertTitle className="text-xs">Errore</AlertTitle>
+        <AlertDescription className="text-[11px]">Pagamento rifiutato.</AlertDescription>
+      </Alert>
+      <Alert variant="info" className={cn(statusStyles.info, 'p-2')} icon={<InformationCircleIcon className="h-4 w-4 text-[rgb(var(--preview-info))]" />}>
+        <AlertTitle className="text-xs">Info</AlertTitle>
+        <AlertDescription className="text-[11px]">Nuova versione disponibile.</AlertDescription>
+      </Alert>
+    </div>
+  </div>
+);
+
+const ChartsScene: React.FC<SceneProps> = ({ colors }) => {
+  const maxBar = Math.max(...BAR_DATA);
+  // Coordinate SVG: viewBox 0 0 100 50, l'asse y cresce verso il basso
+  const toPoints = (series: number[]) =>
+    series.map((v, i) => `${(i / (series.length - 1)) * 100},${50 - (v / 80) * 46}`).join(' ');
+
+  return (
+    <div className="space-y-3">
+      <Card className={cn(styles.card, 'p-3')}>
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-sm font-semibold">Vendite settimanali</p>
+          <Badge className={styles.badge}>7 giorni</Badge>
+        </div>
+        <div className="flex items-end gap-1.5 h-24">
+          {BAR_DATA.map((value, i) => (
+            <div
+              key={`bar-${i}`}
+              className="flex-1 rounded-t-sm"
+              style={{ height: `${(value / maxBar) * 100}%`, backgroundColor: colors[i % colors.length] }}
+              title={String(value)}
+            />
+          ))}
+        </div>
+      </Card>
+
+      <Card className={cn(styles.card, 'p-3')}>
+        <p className="text-sm font-semibold mb-2">Traffico</p>
+        <svg viewBox="0 0 100 50" className="w-full h-24" preserveAspectRatio="none">
+          {[10, 25, 40].map(y => (
+            <line key={y} x1="0" x2="100" y1={y} y2={y} className="stroke-text/10" strokeWidth="0.5" />
+          ))}
+          <polygon points={`0,50 ${toPoints(LINE_DATA[0])} 100,50`} className="fill-primary/15" />
+          <polyline points={toPoints(LINE_DATA[0])} fill="none" className="stroke-primary" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+          <polyline points={toPoints(LINE_DATA[1])} fill="none" className="stroke-accent" strokeWidth="1.5" strokeDasharray="3 2" vectorEffect="non-scaling-stroke" />
+        </svg>
+        <div className={cn('flex gap-3 text-[11px] mt-1', styles.muted)}>
+          <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-primary" />Organico</span>
+          <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-accent" />Campagne</span>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+const sceneComponents: Record<PreviewScene, React.FC<SceneProps>> = {
+  dashboard: DashboardScene,
+  landing: LandingScene,
+  form: FormScene,
+  charts: ChartsScene,
+};
+
+interface UiPreviewProps {
+  palette: ColorPalette;
+}
+
+const UiPreview: React.FC<UiPreviewProps> = ({ palette }) => {
+  const [scene, setScene] = useState<PreviewScene>('dashboard');
+  const Scene = sceneComponents[scene];
+
+  // Ogni riquadro ridefinisce le variabili --color-* solo per il proprio sottoalbero;
+  // senza un tema abbinato salvato la controparte viene derivata al volo
+  const variants = useMemo(() => {
+    const themes = palette.themes ?? derivePairedThemes(palette);
+    return themeModes.map(({ value, label }) => ({
+      mode: value,
+      label,
+      variables: toPreviewVariables(themes[value], semanticRolesFor(palette, value)) as React.CSSProperties,
+    }));
+  }, [palette]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {scenes.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setScene(value)}
+            className={cn(
+              'text-xs font-semibold py-2 px-2 rounded-lg border-2 transition-all',
+              scene === value
+                ? 'bg-indigo-600 text-white border-indigo-700'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+            )}
+            aria-pressed={scene === value}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {variants.map(({ mode, label, variables }) => (
+          <div key={mode}>
+            <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">{label}</p>
+            <div
+              className={cn('rounded-xl border border-text/10 bg-background text-text p-4 shadow-inner', mode === 'dark' && 'dark')}
+              style={variables}
+            >
+              <Scene colors={palette.colors} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UiPreview;
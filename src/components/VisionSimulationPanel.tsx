@@ -0,0 +1,98 @@
+import { useMemo } from 'react';
+import { EyeIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Badge } from './ui/badge';
+import { cn } from '../lib/utils';
+import {
+  visionDeficiencies,
+  findConfusablePairs,
+  simulateDeficiency,
+  type VisionDeficiency
+} from '../utils/colorVision';
+
+interface VisionSimulationPanelProps {
+  colors: string[];
+  mode: VisionDeficiency;
+  onModeChange: (mode: VisionDeficiency) => void;
+}
+
+const VisionSimulationPanel: React.FC<VisionSimulationPanelProps> = ({ colors, mode, onModeChange }) => {
+  // Coppie a rischio per ogni tipo di deficit, calcolate una volta per palette
+  const confusable = useMemo(
+    () => Object.fromEntries(
+      visionDeficiencies
+        .filter(({ value }) => value !== 'normal')
+        .map(({ value }) => [value, findConfusablePairs(colors, value)])
+    ) as Partial<Record<VisionDeficiency, ReturnType<typeof findConfusablePairs>>>,
+    [colors]
+  );
+
+  const currentPairs = confusable[mode] ?? [];
+
+  return (
+    <div className="mb-8 p-6 bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-indigo-100 dark:border-indigo-900/50">
+      <div className="flex items-center gap-2 mb-4">
+        <EyeIcon className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+        <h2 className="text-lg font-medium text-gray-700 dark:text-gray-300">Simulazione Daltonismo</h2>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-2">
+        {visionDeficiencies.map(({ value, label }) => {
+          const issues = confusable[value]?.length ?? 0;
+          return (
+            <button
+              key={value}
+              onClick={() => onModeChange(value)}
+              className={cn(
+                'flex items-center justify-center gap-1.5 text-xs font-semibold py-2 px-2 rounded-lg border-2 transition-all',
+                mode === value
+                  ? 'bg-indigo-600 text-white border-indigo-700'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+              )}
+              aria-pressed={mode === value}
+              aria-label={`Simula ${label}`}
+            >
+              {label}
+              {issues > 0 && <Badge variant="warning">{issues}</Badge>}
+            </button>
+          );
+        })}
+      </div>
+
+      {mode !== 'normal' && (
+        <div className="mt-4">
+          {currentPairs.length === 0 ? (
+            <p className="text-sm text-green-600 dark:text-green-400">
+              Tutti i colori restano distinguibili con questa simulazione.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <p className="flex items-center gap-1.5 text-sm text-yellow-700 dark:text-yellow-400">
+                <ExclamationTriangleIcon className="h-4 w-4" />
+                {currentPairs.length} {currentPairs.length === 1 ? 'coppia diventa indistinguibile' : 'coppie diventano indistinguibili'}:
+              </p>
+              <div className="flex flex-wrap gap-3">
+                {currentPairs.map(({ first, second, deltaE }) => (
+                  <div
+                    key={`${first}-${second}`}
+                    className="flex items-center gap-2 rounded-lg border border-gray-200 dark:border-gray-700 px-2 py-1"
+                    title={`${first.toUpperCase()} / ${second.toUpperCase()}`}
+                  >
+                    <div className="flex">
+                      <span className="h-5 w-5 rounded-l" style={{ backgroundColor: simulateDeficiency(first, mode) }} />
+                      <span className="h-5 w-5 rounded-r" style={{ backgroundColor: simulateDeficiency(second, mode) }} />
+                    </div>
+                    <span className="text-xs font-mono text-gray-600 dark:text-gray-300">
+                      ΔE {(deltaE * 100).toFixed(1)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VisionSimulationPanel;
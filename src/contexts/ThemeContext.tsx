@@ -1,11 +1,10 @@
 import { createContext, useContext, useEffect, useState, useCallback, useMemo } from 'react';
 import type { ColorPalette, ThemeContextType } from '../types';
 import colorUtils from '../utils/colorUtils';
+import { usePaletteStore } from '../store/usePaletteStore';
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
-const PALETTE_STORAGE_KEY = 'colorPalettes';
-
 const defaultPalette: ColorPalette = {
   name: 'Default',
   colors: ['#3b82f6', '#60a5fa', '#93c5fd', '#bfdbfe', '#dbeafe'],
@@ -57,79 +56,53 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     document.documentElement.classList.toggle('dark', darkMode);
   }, [darkMode]);
 
-  const [palettes, setPalettes] = useState<ColorPalette[]>(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem(PALETTE_STORAGE_KEY);
-      return saved ? JSON.parse(saved) : [defaultPalette];
-    }
-    return [defaultPalette];
-  });
+  // Le palette salvate arrivano dal repository unico (che migra anche la vecchia chiave 'colorPalettes')
+  const palettes = usePaletteStore((state) => state.palettes);
+  const storePalette = usePaletteStore((state) => state.savePalette);
+  const removePalette = usePaletteStore((state) => state.deletePalette);
 
   const [currentPalette, setCurrentPalette] = useState<ColorPalette>(defaultPalette);
 
-  // Save palettes to localStorage when they change
-  useEffect(() => {
-    localStorage.setItem(PALETTE_STORAGE_KEY, JSON.stringify(palettes));
-  }, [palettes]);
-
   const toggleDarkMode = useCallback(() => {
     setDarkMode(prev => !prev);
   }, []);
 
+  // A generated palette only becomes current: it reaches the repository when it is saved
   const generateNewPalette = useCallback((): ColorPalette => {
     const newPalette = colorUtils.generateRandomPalette(`Palette ${palettes.length + 1}`);
     setCurrentPalette(newPalette);
-    setPalettes(prev => [newPalette, ...prev]);
     return newPalette;
   }, [palettes.length]);
 
   const savePalette = useCallback((palette: Omit<ColorPalette, 'name'> & { name?: string }) => {
-    const paletteWithName: ColorPalette = {
-      name: palette.name || `Palette ${Date.now()}`,
-      colors: [...palette.colors],
-      primary: palette.primary,
-      secondary: palette.secondary,
-      accent: palette.accent,
-      background: palette.background,
-      text: palette.text,
-    };
-
-    setPalettes(prev => {
-      const exists = prev.some(p => p.name === paletteWithName.name);
-      if (exists) {
-        return prev.map(p => p.name === paletteWithName.name ? paletteWithName : p);
-      }
-      return [paletteWithName, ...prev];
-    });
-    setCurrentPalette(paletteWithName);
-  }, []);
-
-  const deletePalette = useCallback((paletteName: string) => {
-    setPalettes(prev => {
-      const newPalettes = prev.filter(p => p.name !== paletteName);
-      // If we deleted the current palette, switch to the next available one
-      if (currentPalette.name === paletteName) {
-        setCurrentPalette(newPalettes[0] || defaultPalette);
-      }
-      return newPalettes;
-    });
-  }, [currentPalette.name]);
+    // Stored as is, so themes, role assignments and harmony settings are kept
+    setCurrentPalette(storePalette({ ...palette, name: palette.name || `Palette ${Date.now()}` }));
+  }, [storePalette]);
+
+  const deletePalette = useCallback((id: string) => {
+    removePalette(id);
+    // If we deleted the current palette, switch to the next available one
+    if (currentPalette.id === id) {
+      setCurrentPalette(usePaletteStore.getState().palettes[0] || defaultPalette);
+    }
+  }, [currentPalette.id, removePalette]);
 
   const updateCurrentPalette = useCallback((palette: ColorPalette) => {
     setCurrentPalette(palette);
   }, []);
 
-  // Apply the current palette to the document
+  // Apply the current palette to the document, using the paired theme for the active mode if any
   useEffect(() => {
     if (typeof document !== 'undefined') {
       const root = document.documentElement;
-      root.style.setProperty('--color-primary', currentPalette.primary);
-      root.style.setProperty('--color-secondary', currentPalette.secondary);
-      root.style.setProperty('--color-accent', currentPalette.accent);
-      root.style.setProperty('--color-background', currentPalette.background);
-      root.style.setProperty('--color-text', currentPalette.text);
+      const roles = currentPalette.themes?.[darkMode ? 'dark' : 'light'] ?? currentPalette;
+      root.style.setProperty('--color-primary', roles.primary);
+      root.style.setProperty('--color-secondary', roles.secondary);
+      root.style.setProperty('--color-accent', roles.accent);
+      root.style.setProperty('--color-background', roles.background);
+      root.style.setProperty('--color-text', roles.text);
     }
-  }, [currentPalette]);
+  }, [currentPalette, darkMode]);
 
   // Create the context value
   const contextValue = useMemo(() => ({
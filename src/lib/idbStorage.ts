@@ -0,0 +1,78 @@
+import type { StateStorage } from 'zustand/middleware';
+
+const DB_NAME = 'spectra';
+const DB_VERSION = 1;
+const STORE_NAME = 'keyval';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Apre (una sola volta) il database IndexedDB dell'applicazione
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Impossibile aprire IndexedDB'));
+  });
+  return dbPromise;
+}
+
+/**
+ * Esegue una singola richiesta su una transazione dell'object store
+ */
+async function runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Errore IndexedDB'));
+  });
+}
+
+/**
+ * Storage chiave/valore su IndexedDB per il middleware persist di zustand.
+ * Se IndexedDB non è disponibile (es. alcune modalità private) ripiega su localStorage.
+ * @param fallbackRead - letto quando la chiave non esiste ancora (migrazione da altri storage)
+ */
+export function createIdbStorage(fallbackRead?: (name: string) => string | null): StateStorage {
+  const available = typeof indexedDB !== 'undefined';
+
+  return {
+    getItem: async (name) => {
+      try {
+        if (available) {
+          const value = await runRequest<unknown>('readonly', store => store.get(name));
+          if (typeof value === 'string') return value;
+        }
+      } catch (err) {
+        console.error('Errore durante la lettura da IndexedDB:', err);
+      }
+      return localStorage.getItem(name) ?? fallbackRead?.(name) ?? null;
+    },
+    setItem: async (name, value) => {
+      try {
+        if (available) {
+          await runRequest('readwrite', store => store.put(value, name));
+          return;
+        }
+      } catch (err) {
+        console.error('Errore durante la scrittura su IndexedDB:', err);
+      }
+      localStorage.setItem(name, value);
+    },
+    removeItem: async (name) => {
+      try {
+        if (available) await runRequest('readwrite', store => store.delete(name));
+      } catch (err) {
+        console.error('Errore durante la rimozione da IndexedDB:', err);
+      }
+      localStorage.removeItem(name);
+    },
+  };
+}
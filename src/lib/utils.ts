@@ -1,5 +1,7 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { getContrastRatio as wcagContrastRatio, getRelativeLuminance } from '../utils/contrast';
+import { rgbToHex } from '../utils/colorUtils';
 
 /**
  * Combina i nomi delle classi con gestione delle classi di utilità Tailwind
@@ -8,6 +10,11 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+/**
+ * Sfondo a scacchiera (shorthand CSS `background`) per mostrare la trasparenza dei colori
+ */
+export const CHECKERBOARD_BACKGROUND = 'repeating-conic-gradient(#d1d5db 0% 25%, #ffffff 0% 50%) 0 0 / 16px 16px';
+
 /**
  * Genera un ID univoco
  */
@@ -42,6 +49,21 @@ export async function copyToClipboard(text: string): Promise<boolean> {
   }
 }
 
+/**
+ * Scarica del testo come file tramite un link temporaneo
+ */
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Genera un colore casuale in formato esadecimale
  */
@@ -105,14 +127,7 @@ export function getTextColor(backgroundColor: string): string {
  * @returns Valore tra 0 (nero) e 1 (bianco)
  */
 function calculateLuminance(r: number, g: number, b: number): number {
-  // Converti i valori RGB in gamma corretta
-  const [rGamma, gGamma, bGamma] = [r, g, b].map(c => {
-    c /= 255;
-    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
-  });
-  
-  // Calcola la luminosità relativa (formula WCAG 2.0)
-  return 0.2126 * rGamma + 0.7152 * gGamma + 0.0722 * bGamma;
+  return getRelativeLuminance(rgbToHex(r, g, b));
 }
 
 /**
@@ -176,32 +191,10 @@ export function hexToRgb(hex: string): { r: number; g: number; b: number } | nul
 }
 
 /**
- * Calcola il rapporto di contrasto tra due colori (WCAG 2.0)
+ * Calcola il rapporto di contrasto tra due colori (WCAG 2.x)
+ * Delega all'implementazione condivisa in utils/contrast
  * @returns Un numero compreso tra 1 (stesso colore) e 21 (massimo contrasto)
  */
 export function getContrastRatio(color1: string, color2: string): number {
-  const getLuminance = (hex: string): number => {
-    // Rimuovi il carattere # se presente
-    const hexColor = hex.startsWith('#') ? hex.substring(1) : hex;
-
-    // Converti in RGB
-    const r = parseInt(hexColor.substring(0, 2), 16) / 255;
-    const g = parseInt(hexColor.substring(2, 4), 16) / 255;
-    const b = parseInt(hexColor.substring(4, 6), 16) / 255;
-
-    // Applica la correzione gamma
-    const sRGB = [r, g, b].map(c =>
-      c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
-    );
-
-    // Calcola la luminanza relativa (formula WCAG 2.0)
-    return 0.2126 * sRGB[0] + 0.7152 * sRGB[1] + 0.0722 * sRGB[2];
-  };
-
-  // Aggiungi un piccolo valore per evitare divisioni per zero
-  const l1 = getLuminance(color1) + 0.05;
-  const l2 = getLuminance(color2) + 0.05;
-
-  // Restituisci il rapporto di contrasto (sempre >= 1)
-  return l1 > l2 ? l1 / l2 : l2 / l1;
+  return wcagContrastRatio(color1, color2);
 }
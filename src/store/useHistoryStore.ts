@@ -0,0 +1,130 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { generateId } from '../lib/utils';
+import type { ColorPalette } from '../types';
+import { samePairedThemes } from '../utils/themePairs';
+
+export interface HistoryEntry {
+  id: string;
+  palette: ColorPalette;
+  label: string;
+  timestamp: number;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  present: HistoryEntry | null;
+  future: HistoryEntry[];
+  limit: number;
+  record: (palette: ColorPalette, label: string) => void;
+  undo: () => ColorPalette | null;
+  redo: () => ColorPalette | null;
+  jumpTo: (id: string) => ColorPalette | null;
+  setLimit: (limit: number) => void;
+  clear: () => void;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+// Edits closer than this (typing a hex, select + regenerate) become a single step
+const COALESCE_MS = 1000;
+
+const samePalette = (a: ColorPalette, b: ColorPalette): boolean =>
+  a.name === b.name &&
+  a.primary === b.primary &&
+  a.secondary === b.secondary &&
+  a.accent === b.accent &&
+  a.background === b.background &&
+  a.text === b.text &&
+  a.colors.length === b.colors.length &&
+  a.colors.every((c, i) => c === b.colors[i]) &&
+  samePairedThemes(a.themes, b.themes) &&
+  JSON.stringify(a.roleAssignments ?? {}) === JSON.stringify(b.roleAssignments ?? {}) &&
+  JSON.stringify(a.harmony ?? null) === JSON.stringify(b.harmony ?? null);
+
+// The limit counts every entry, present included
+const trimPast = (past: HistoryEntry[], limit: number): HistoryEntry[] =>
+  past.slice(Math.max(0, past.length - (limit - 1)));
+
+export const useHistoryStore = create<HistoryState>()(
+  persist(
+    (set, get) => ({
+      past: [],
+      present: null,
+      future: [],
+      limit: DEFAULT_HISTORY_LIMIT,
+      record: (palette, label) => {
+        set((state) => {
+          if (state.present && samePalette(state.present.palette, palette)) {
+            // Saving only adds the id: not an edit, but the entry must carry it to survive reloads
+            return state.present.palette.id === palette.id ? state : { present: { ...state.present, palette } };
+          }
+
+          const now = Date.now();
+          if (state.present && state.future.length === 0 && now - state.present.timestamp < COALESCE_MS) {
+            return { present: { ...state.present, palette, label, timestamp: now } };
+          }
+
+          const past = state.present ? [...state.past, state.present] : state.past;
+          return {
+            past: trimPast(past, state.limit),
+            present: { id: generateId(), palette, label, timestamp: now },
+            future: [],
+          };
+        });
+      },
+      undo: () => {
+        const { past, present, future } = get();
+        if (!present || past.length === 0) return null;
+
+        const previous = past[past.length - 1];
+        set({ past: past.slice(0, -1), present: previous, future: [present, ...future] });
+        return previous.palette;
+      },
+      redo: () => {
+        const { past, present, future } = get();
+        if (!present || future.length === 0) return null;
+
+        const [next, ...rest] = future;
+        set({ past: [...past, present], present: next, future: rest });
+        return next.palette;
+      },
+      jumpTo: (id) => {
+        const { past, present, future } = get();
+        const entries = [...past, ...(present ? [present] : []), ...future];
+        const index = entries.findIndex(e => e.id === id);
+        if (index < 0) return null;
+
+        set({ past: entries.slice(0, index), present: entries[index], future: entries.slice(index + 1) });
+        return entries[index].palette;
+      },
+      setLimit: (limit) => {
+        const safeLimit = Math.max(2, Math.round(limit));
+        set((state) => {
+          const past = trimPast(state.past, safeLimit);
+          // Redo steps fill whatever room the undo side leaves
+          return { limit: safeLimit, past, future: state.future.slice(0, safeLimit - 1 - past.length) };
+        });
+      },
+      clear: () => {
+        set((state) => ({ past: [], future: [], present: state.present }));
+      },
+    }),
+    {
+      name: 'palette-history',
+      partialize: (state) => ({
+        past: state.past,
+        present: state.present,
+        future: state.future,
+        limit: state.limit,
+      }),
+    }
+  )
+);
+
+// Hook personalizzati per un accesso più pulito
+export const useCanUndo = () =>
+  useHistoryStore((state) => state.past.length > 0);
+
+export const useCanRedo = () =>
+  useHistoryStore((state) => state.future.length > 0);
@@ -0,0 +1,272 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { generateId } from '../lib/utils';
+import { createIdbStorage } from '../lib/idbStorage';
+import type { ColorPalette, PaletteFolder, StoredPalette } from '../types';
+
+// Library metadata that only the library UI edits
+export type PaletteMetadata = Partial<Pick<StoredPalette, 'name' | 'tags' | 'favorite' | 'folderId'>>;
+
+interface PaletteRepositoryState {
+  palettes: StoredPalette[];
+  folders: PaletteFolder[];
+  savePalette: (palette: ColorPalette) => StoredPalette;
+  importPalettes: (palettes: unknown[], folders: unknown[]) => number;
+  updatePalette: (id: string, changes: PaletteMetadata) => void;
+  toggleFavorite: (id: string) => void;
+  deletePalette: (id: string) => void;
+  deletePalettes: (ids: string[]) => void;
+  movePalettes: (ids: string[], folderId: string | null) => void;
+  getPalette: (id: string) => StoredPalette | undefined;
+  createFolder: (name: string) => PaletteFolder;
+  renameFolder: (id: string, name: string) => void;
+  deleteFolder: (id: string) => void;
+}
+
+/**
+ * Schema versions of the persisted repository:
+ * 0 - legacy data read from 'theme-storage' (zustand) and 'colorPalettes' (ThemeProvider), keyed by name
+ * 1 - palettes with stable ids and timestamps (localStorage)
+ * 2 - folders, tags and favorites (IndexedDB)
+ */
+export const PALETTE_SCHEMA_VERSION = 2;
+
+const STORAGE_KEY = 'palette-repository';
+const LEGACY_THEME_STORE_KEY = 'theme-storage';
+const LEGACY_CONTEXT_KEY = 'colorPalettes';
+
+// Seed palette that ThemeProvider used to write on every first visit
+const LEGACY_SEED_COLORS = ['#3b82f6', '#60a5fa', '#93c5fd', '#bfdbfe', '#dbeafe'];
+
+const isLegacySeed = (palette: ColorPalette): boolean =>
+  palette.name === 'Default' &&
+  palette.colors.length === LEGACY_SEED_COLORS.length &&
+  palette.colors.every((c, i) => c.toLowerCase() === LEGACY_SEED_COLORS[i]);
+
+const readJson = (key: string): unknown => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const isPaletteLike = (value: unknown): value is ColorPalette => {
+  if (!value || typeof value !== 'object') return false;
+  const palette = value as Partial<ColorPalette>;
+  return typeof palette.name === 'string' &&
+    Array.isArray(palette.colors) &&
+    palette.colors.every(c => typeof c === 'string');
+};
+
+// Legacy palettes from both old storage keys, as an unversioned (v0) snapshot
+const readLegacySnapshot = (): string | null => {
+  const themeStore = readJson(LEGACY_THEME_STORE_KEY) as { state?: { palettes?: unknown } } | null;
+  const context = readJson(LEGACY_CONTEXT_KEY);
+
+  const palettes: unknown[] = [
+    ...(Array.isArray(themeStore?.state?.palettes) ? themeStore.state.palettes as unknown[] : []),
+    ...(Array.isArray(context) ? context as unknown[] : []),
+  ];
+  if (palettes.length === 0) return null;
+
+  return JSON.stringify({ state: { palettes }, version: 0 });
+};
+
+const toStoredPalette = (palette: ColorPalette, now: string): StoredPalette => {
+  const primary = palette.primary || palette.colors[0] || '#000000';
+  return {
+    folderId: null,
+    tags: [],
+    favorite: false,
+    ...palette,
+    id: palette.id ?? generateId(),
+    primary,
+    secondary: palette.secondary || palette.colors[1] || primary,
+    accent: palette.accent || palette.colors[2] || primary,
+    background: palette.background || '#ffffff',
+    text: palette.text || '#111827',
+    createdAt: palette.createdAt ?? now,
+    updatedAt: palette.updatedAt ?? palette.createdAt ?? now,
+  };
+};
+
+// v0 -> v1: ids and timestamps; legacy names were unique keys, so the most recent copy wins
+const migrateFromLegacy = (palettes: unknown[]): StoredPalette[] => {
+  const now = new Date().toISOString();
+  const byName = new Map<string, StoredPalette>();
+
+  for (const palette of palettes.filter(isPaletteLike)) {
+    if (isLegacySeed(palette)) continue;
+
+    const stored = toStoredPalette(palette, now);
+    const existing = byName.get(stored.name);
+    if (!existing || existing.updatedAt < stored.updatedAt) {
+      byName.set(stored.name, stored);
+    }
+  }
+
+  return [...byName.values()];
+};
+
+// Only the palette content: library metadata carried by a loaded palette must not overwrite the stored one
+const paletteContent = ({ name, colors, primary, secondary, accent, background, text, themes, roleAssignments, harmony }: ColorPalette): ColorPalette =>
+  ({ name, colors, primary, secondary, accent, background, text, themes, roleAssignments, harmony });
+
+const isFolderLike = (value: unknown): value is PaletteFolder => {
+  if (!value || typeof value !== 'object') return false;
+  const folder = value as Partial<PaletteFolder>;
+  return typeof folder.id === 'string' && typeof folder.name === 'string';
+};
+
+const uniqueTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(t => t.trim().toLowerCase()).filter(Boolean))];
+
+// Union by id; on conflicts the first list wins (palettes: the most recently updated copy)
+const unionById = <T extends { id: string }>(first: T[], second: T[]): T[] => {
+  const ids = new Set(first.map(item => item.id));
+  return [...first, ...second.filter(item => !ids.has(item.id))];
+};
+
+const mergePalettes = (current: StoredPalette[], persisted: StoredPalette[]): StoredPalette[] => {
+  const byId = new Map(persisted.map(p => [p.id, p]));
+  const newer = current.filter(p => {
+    const stored = byId.get(p.id);
+    return !stored || stored.updatedAt < p.updatedAt;
+  });
+  return unionById(newer, persisted);
+};
+
+const touch = (
+  palettes: StoredPalette[],
+  ids: ReadonlySet<string>,
+  update: (palette: StoredPalette) => Partial<StoredPalette>
+): StoredPalette[] => {
+  const now = new Date().toISOString();
+  return palettes.map(p => ids.has(p.id) ? { ...p, ...update(p), updatedAt: now } : p);
+};
+
+export const usePaletteStore = create<PaletteRepositoryState>()(
+  persist(
+    (set, get) => ({
+      palettes: [],
+      folders: [],
+      savePalette: (palette) => {
+        const now = new Date().toISOString();
+        const existing = palette.id ? get().palettes.find(p => p.id === palette.id) : undefined;
+
+        if (existing) {
+          const updated: StoredPalette = { ...existing, ...paletteContent(palette), updatedAt: now };
+          set((state) => ({ palettes: state.palettes.map(p => p.id === existing.id ? updated : p) }));
+          return updated;
+        }
+
+        // Unknown ids (e.g. from another browser's link) get a fresh one
+        const created = toStoredPalette({ ...paletteContent(palette), createdAt: now, updatedAt: now }, now);
+        set((state) => ({ palettes: [created, ...state.palettes] }));
+        return created;
+      },
+      // Records from a library export: same id -> the most recently updated copy wins
+      importPalettes: (palettes, folders) => {
+        const now = new Date().toISOString();
+        const imported = palettes.filter(isPaletteLike).map(p => {
+          const stored = toStoredPalette(p, now);
+          const tags: unknown = stored.tags;
+          return {
+            ...stored,
+            tags: Array.isArray(tags) ? uniqueTags(tags.filter((t): t is string => typeof t === 'string')) : [],
+            favorite: stored.favorite === true,
+          };
+        });
+        set((state) => {
+          const mergedFolders = unionById(state.folders, folders.filter(isFolderLike)
+            .map(f => ({ id: f.id, name: f.name, createdAt: f.createdAt || now })));
+          const folderIds = new Set(mergedFolders.map(f => f.id));
+          return {
+            folders: mergedFolders,
+            palettes: mergePalettes(
+              imported.map(p => ({ ...p, folderId: p.folderId && folderIds.has(p.folderId) ? p.folderId : null })),
+              state.palettes
+            ),
+          };
+        });
+        return imported.length;
+      },
+      updatePalette: (id, changes) => {
+        set((state) => ({
+          palettes: touch(state.palettes, new Set([id]), () => ({
+            ...changes,
+            ...(changes.tags ? { tags: uniqueTags(changes.tags) } : {}),
+          })),
+        }));
+      },
+      toggleFavorite: (id) => {
+        set((state) => ({ palettes: touch(state.palettes, new Set([id]), p => ({ favorite: !p.favorite })) }));
+      },
+      deletePalette: (id) => {
+        set((state) => ({ palettes: state.palettes.filter(p => p.id !== id) }));
+      },
+      deletePalettes: (ids) => {
+        const selected = new Set(ids);
+        set((state) => ({ palettes: state.palettes.filter(p => !selected.has(p.id)) }));
+      },
+      movePalettes: (ids, folderId) => {
+        set((state) => ({ palettes: touch(state.palettes, new Set(ids), () => ({ folderId })) }));
+      },
+      getPalette: (id) => get().palettes.find(p => p.id === id),
+      createFolder: (name) => {
+        const folder: PaletteFolder = { id: generateId(), name: name.trim() || 'Nuova cartella', createdAt: new Date().toISOString() };
+        set((state) => ({ folders: [...state.folders, folder] }));
+        return folder;
+      },
+      renameFolder: (id, name) => {
+        if (!name.trim()) return;
+        set((state) => ({ folders: state.folders.map(f => f.id === id ? { ...f, name: name.trim() } : f) }));
+      },
+      // Le palette della cartella eliminata tornano nella radice
+      deleteFolder: (id) => {
+        set((state) => ({
+          folders: state.folders.filter(f => f.id !== id),
+          palettes: state.palettes.map(p => p.folderId === id ? { ...p, folderId: null } : p),
+        }));
+      },
+    }),
+    {
+      name: STORAGE_KEY,
+      version: PALETTE_SCHEMA_VERSION,
+      // IndexedDB; finché la chiave non esiste si leggono localStorage (v1) e le vecchie chiavi (v0)
+      storage: createJSONStorage(() => createIdbStorage(() => readLegacySnapshot())),
+      partialize: (state) => ({ palettes: state.palettes, folders: state.folders }),
+      // IndexedDB risponde in modo asincrono: quanto salvato prima dell'idratazione si unisce ai dati letti invece di andare perso
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as Partial<Pick<PaletteRepositoryState, 'palettes' | 'folders'>> | undefined;
+        return {
+          ...currentState,
+          palettes: mergePalettes(currentState.palettes, persisted?.palettes ?? []),
+          folders: unionById(currentState.folders, persisted?.folders ?? []),
+        };
+      },
+      migrate: (persistedState, version) => {
+        const state = (persistedState ?? {}) as { palettes?: unknown; folders?: unknown };
+        let palettes = Array.isArray(state.palettes) ? state.palettes as StoredPalette[] : [];
+
+        if (version < 1) {
+          palettes = migrateFromLegacy(palettes);
+        }
+        if (version < 2) {
+          palettes = palettes.map(p => ({ ...p, folderId: null, tags: [], favorite: false }));
+        }
+
+        return {
+          palettes,
+          folders: Array.isArray(state.folders) ? state.folders as PaletteFolder[] : [],
+        };
+      },
+    }
+  )
+);
+
+// Hook personalizzati per un accesso più pulito
+export const useSavedPalettes = () =>
+  usePaletteStore((state) => state.palettes);
@@ -1,16 +1,16 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { generateRandomPalette } from '../utils/colorUtils';
+import { usePaletteStore } from './usePaletteStore';
 import type { ColorPalette } from '../types';
 
 interface ThemeState {
   darkMode: boolean;
   currentPalette: ColorPalette;
-  palettes: ColorPalette[];
   toggleDarkMode: () => void;
   generateNewPalette: () => void;
   savePalette: (palette: Omit<ColorPalette, 'name'> & { name?: string }) => void;
-  deletePalette: (paletteName: string) => void;
+  deletePalette: (id: string) => void;
   setCurrentPalette: (palette: ColorPalette) => void;
 }
 
@@ -27,7 +27,6 @@ export const useThemeStore = create<ThemeState>()(
         background: '#ffffff',
         text: '#111827',
       },
-      palettes: [],
       toggleDarkMode: () => {
         set((state) => {
           const newDarkMode = !state.darkMode;
@@ -39,30 +38,13 @@ export const useThemeStore = create<ThemeState>()(
         const newPalette = generateRandomPalette('New Palette');
         set({ currentPalette: newPalette });
       },
+      // Le palette salvate vivono solo nel repository (usePaletteStore)
       savePalette: (palette) => {
-        set((state) => {
-          const paletteName = palette.name || `Palette ${state.palettes.length + 1}`;
-          const existingIndex = state.palettes.findIndex(p => p.name === paletteName);
-          const newPalette = { 
-            ...palette, 
-            name: paletteName,
-            updatedAt: new Date().toISOString(),
-            createdAt: (palette as any).createdAt || new Date().toISOString(),
-          };
-          
-          if (existingIndex >= 0) {
-            const updatedPalettes = [...state.palettes];
-            updatedPalettes[existingIndex] = newPalette;
-            return { palettes: updatedPalettes };
-          }
-          
-          return { palettes: [...state.palettes, newPalette] };
-        });
+        const { palettes, savePalette } = usePaletteStore.getState();
+        savePalette({ ...palette, name: palette.name || `Palette ${palettes.length + 1}` });
       },
-      deletePalette: (paletteName) => {
-        set((state) => ({
-          palettes: state.palettes.filter(p => p.name !== paletteName)
-        }));
+      deletePalette: (id) => {
+        usePaletteStore.getState().deletePalette(id);
       },
       setCurrentPalette: (palette) => {
         set({ currentPalette: palette });
@@ -72,7 +54,6 @@ export const useThemeStore = create<ThemeState>()(
       name: 'theme-storage',
       partialize: (state) => ({ 
         darkMode: state.darkMode,
-        palettes: state.palettes,
       }),
     }
   )
@@ -83,7 +64,7 @@ export const useCurrentPalette = () =>
   useThemeStore((state) => state.currentPalette);
 
 export const usePalettes = () => 
-  useThemeStore((state) => state.palettes);
+  usePaletteStore((state) => state.palettes);
 
 export const useThemeActions = () => 
   useThemeStore((state) => ({
@@ -1,23 +1,75 @@
-export interface ColorPalette {
-  name: string;
-  colors: string[];
+export type ThemeMode = 'light' | 'dark';
+
+// The color roles a theme assigns; ColorPalette carries one set inline
+export interface ThemeRoles {
   primary: string;
   secondary: string;
   accent: string;
   background: string;
   text: string;
+}
+
+// Roles inferred from the base roles; on* roles are the foregrounds drawn on the matching fill
+export type SemanticRole =
+  | 'surface'
+  | 'surfaceVariant'
+  | 'border'
+  | 'muted'
+  | 'success'
+  | 'warning'
+  | 'error'
+  | 'info'
+  | 'onPrimary'
+  | 'onSecondary'
+  | 'onAccent'
+  | 'onSurface'
+  | 'onSuccess'
+  | 'onWarning'
+  | 'onError'
+  | 'onInfo';
+
+export type SemanticRoles = Record<SemanticRole, string>;
+
+export interface ColorPalette extends ThemeRoles {
+  // Assigned by the palette repository when the palette is saved
+  id?: string;
+  name: string;
+  colors: string[];
+  // Paired light/dark role sets; one of them mirrors the inline roles
+  themes?: Record<ThemeMode, ThemeRoles>;
+  // Semantic roles pinned to a swatch (index in colors); the others are inferred
+  roleAssignments?: Partial<Record<SemanticRole, number>>;
+  // Generator settings, restored in the controls when the palette is reopened
+  harmony?: HarmonySettings;
   createdAt?: string;
   updatedAt?: string;
 }
 
+// A palette as kept by the palette repository
+export interface StoredPalette extends ColorPalette {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  // null = library root
+  folderId: string | null;
+  tags: string[];
+  favorite: boolean;
+}
+
+export interface PaletteFolder {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
 export interface ThemeContextType {
   darkMode: boolean;
   toggleDarkMode: () => void;
   currentPalette: ColorPalette;
   generateNewPalette: () => void;
-  palettes: ColorPalette[];
+  palettes: StoredPalette[];
   savePalette: (palette: Omit<ColorPalette, 'name'> & { name?: string }) => void;
-  deletePalette: (paletteName: string) => void;
+  deletePalette: (id: string) => void;
   setCurrentPalette: (palette: ColorPalette) => void;
   colorScheme: string;
   setColorScheme: (scheme: string) => void;
@@ -25,12 +77,145 @@ export interface ThemeContextType {
   schemeLabels: Record<string, string>;
 }
 
+// Color models
+export interface RGB { r: number; g: number; b: number }
+export interface LinearRGB { r: number; g: number; b: number }
+export interface XYZ { x: number; y: number; z: number }
+export interface OKLab { l: number; a: number; b: number }
+export interface OKLCH { l: number; c: number; h: number }
+export interface Lab { l: number; a: number; b: number }
+export interface LCh { l: number; c: number; h: number }
+// Any parsed CSS color, normalized to sRGB channels (0-255) with alpha (0-1) and its opaque hex
+export interface CssColor extends RGB { alpha: number; hex: string }
+// Material's HCT: CAM16 hue and chroma, CIELAB L* as tone
+export interface HCT { h: number; c: number; t: number }
+
+// Space in which harmony generators rotate hue and step lightness
+export type HarmonySpace = 'hsl' | 'oklch' | 'lch';
+
+// Tunable parameters of the harmony generators; each scheme uses a subset of them
+export interface HarmonyParams {
+  // Hue distance in degrees between neighbouring colors (from the complement for split complementary)
+  spread: number;
+  // Total number of colors, base included when it is part of the result
+  count: number;
+  // Lightness range (0-100) of monochromatic steps
+  minLightness: number;
+  maxLightness: number;
+  // Maximum lightness/saturation offset in percentage points, applied deterministically to every non-base color
+  lightnessJitter: number;
+  saturationJitter: number;
+  includeBase: boolean;
+}
+
+// Harmonies built by rotating the base hue by fixed offsets
+export type HueHarmony = 'Analogous' | 'Complementary' | 'Triadic' | 'SplitComplementary' | 'Tetradic';
+
+export interface HarmonyOptions extends Partial<HarmonyParams> {
+  space?: HarmonySpace;
+}
+
+// Scheme and parameters a palette was generated with
+export interface HarmonySettings {
+  scheme: string;
+  params: Partial<HarmonyParams>;
+}
+
+// Tailwind-style tonal scale
+export type TonalStep = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900 | 950;
+
+export type TonalCurve = 'tailwind' | 'linear' | 'soft';
+
+export interface TonalScaleOptions {
+  // Named curve or explicit OKLCH lightness (0-1) for every step
+  curve?: TonalCurve | Record<TonalStep, number>;
+  // Keep the base color exactly at its nearest step
+  anchorBase?: boolean;
+  // 0 = constant chroma, 1 = chroma fades out completely at 50 and 950
+  chromaEasing?: number;
+}
+
+export interface TonalScale {
+  shades: Record<TonalStep, string>;
+  baseStep: TonalStep;
+}
+
+// Gradients built from palette colors
+export type GradientType = 'linear' | 'radial' | 'conic';
+
+// Interpolation space; hue interpolation only applies to OKLCH
+export type GradientSpace = 'srgb' | 'oklab' | 'oklch';
+export type HueInterpolation = 'shorter' | 'longer';
+
+export interface GradientStop {
+  id: string;
+  color: string;
+  // 0-100, along the gradient line (or around the center for conic)
+  position: number;
+}
+
+export interface Gradient {
+  type: GradientType;
+  // Direction of linear gradients, start angle of conic ones (CSS degrees)
+  angle: number;
+  space: GradientSpace;
+  hue: HueInterpolation;
+  stops: GradientStop[];
+}
+
+// Material 3 dynamic color
+export type MaterialVariant = 'tonalSpot' | 'vibrant' | 'expressive' | 'fidelity' | 'content';
+
+export type MaterialPaletteKey = 'primary' | 'secondary' | 'tertiary' | 'neutral' | 'neutralVariant' | 'error';
+
+export type MaterialRole =
+  | 'primary'
+  | 'onPrimary'
+  | 'primaryContainer'
+  | 'onPrimaryContainer'
+  | 'secondary'
+  | 'onSecondary'
+  | 'secondaryContainer'
+  | 'onSecondaryContainer'
+  | 'tertiary'
+  | 'onTertiary'
+  | 'tertiaryContainer'
+  | 'onTertiaryContainer'
+  | 'error'
+  | 'onError'
+  | 'errorContainer'
+  | 'onErrorContainer'
+  | 'background'
+  | 'onBackground'
+  | 'surface'
+  | 'onSurface'
+  | 'surfaceVariant'
+  | 'onSurfaceVariant'
+  | 'outline'
+  | 'outlineVariant'
+  | 'shadow'
+  | 'scrim'
+  | 'inverseSurface'
+  | 'inverseOnSurface'
+  | 'inversePrimary';
+
+export type MaterialRoles = Record<MaterialRole, string>;
+
+export interface MaterialScheme {
+  source: string;
+  variant: MaterialVariant;
+  // Tone (0-100) -> hex for every key palette
+  palettes: Record<MaterialPaletteKey, Record<number, string>>;
+  light: MaterialRoles;
+  dark: MaterialRoles;
+}
+
 export interface ColorUtils {
-  generateAnalogous: (baseColor: string) => string[];
-  generateComplementary: (baseColor: string) => string[];
-  generateTriadic: (baseColor: string) => string[];
-  generateTetradic: (baseColor: string) => string[];
-  generateMonochromatic: (baseColor: string) => string[];
+  generateAnalogous: (baseColor: string, options?: HarmonyOptions) => string[];
+  generateComplementary: (baseColor: string, options?: HarmonyOptions) => string[];
+  generateTriadic: (baseColor: string, options?: HarmonyOptions) => string[];
+  generateTetradic: (baseColor: string, options?: HarmonyOptions) => string[];
+  generateMonochromatic: (baseColor: string, options?: HarmonyOptions) => string[];
   hexToRgb: (hex: string) => { r: number; g: number; b: number };
   rgbToHex: (r: number, g: number, b: number) => string;
   getContrastText: (hexColor: string) => string;
@@ -0,0 +1,121 @@
+import type { ColorPalette } from '../types';
+import { hexToOklab } from './colorUtils';
+import { deltaEOK } from './colorSpaces';
+import { getContrastRatio, getApcaContrast, findNearestPassing, WCAG_THRESHOLDS } from './contrast';
+
+export type PaletteRole = 'primary' | 'secondary' | 'accent' | 'background' | 'text';
+
+export type ContrastTarget =
+  | { kind: 'wcag'; level: 'AA' | 'AAA' }
+  | { kind: 'apca'; lc: number };
+
+export interface RolePairRequirement {
+  foreground: PaletteRole;
+  background: PaletteRole;
+  // Large text / UI components get the relaxed thresholds
+  large?: boolean;
+}
+
+export interface RoleChange {
+  role: PaletteRole;
+  before: string;
+  after: string;
+  deltaE: number;
+}
+
+export interface SolverResult {
+  palette: ColorPalette;
+  changes: RoleChange[];
+  // Pairs that could not be fixed by moving either color
+  unresolved: RolePairRequirement[];
+}
+
+export const DEFAULT_ROLE_PAIRS: RolePairRequirement[] = [
+  { foreground: 'text', background: 'background' },
+  { foreground: 'primary', background: 'background', large: true },
+  { foreground: 'secondary', background: 'background', large: true },
+  { foreground: 'accent', background: 'background', large: true },
+];
+
+// APCA has no "large text" level: use the usual 15 Lc step down, never below 30
+const APCA_LARGE_OFFSET = 15;
+const APCA_MIN_LC = 30;
+const MAX_PASSES = 4;
+
+export const meetsTarget = (foreground: string, background: string, target: ContrastTarget, large = false): boolean => {
+  if (target.kind === 'apca') {
+    const required = large ? Math.max(APCA_MIN_LC, target.lc - APCA_LARGE_OFFSET) : target.lc;
+    return Math.abs(getApcaContrast(foreground, background)) >= required;
+  }
+
+  const ratio = getContrastRatio(foreground, background);
+  if (target.level === 'AAA') {
+    return ratio >= (large ? WCAG_THRESHOLDS.aaaLarge : WCAG_THRESHOLDS.aaaNormal);
+  }
+  return ratio >= (large ? WCAG_THRESHOLDS.aaLarge : WCAG_THRESHOLDS.aaNormal);
+};
+
+export const describeTarget = (target: ContrastTarget): string =>
+  target.kind === 'apca' ? `APCA Lc ${target.lc}` : `WCAG ${target.level}`;
+
+/**
+ * Nudges the palette roles until every required pair reaches the target.
+ * Foreground roles move first (background is usually the anchor of a theme);
+ * the background only moves when no foreground adjustment can pass.
+ * Each move is the smallest OKLab change found by findNearestPassing.
+ */
+export const solveAccessiblePairs = (
+  palette: ColorPalette,
+  target: ContrastTarget,
+  requirements: RolePairRequirement[] = DEFAULT_ROLE_PAIRS
+): SolverResult => {
+  const roles: Record<PaletteRole, string> = {
+    primary: palette.primary,
+    secondary: palette.secondary,
+    accent: palette.accent,
+    background: palette.background,
+    text: palette.text,
+  };
+
+  const passes = (req: RolePairRequirement) =>
+    meetsTarget(roles[req.foreground], roles[req.background], target, req.large);
+
+  // Moving a background can break pairs already fixed, so repeat a few times
+  for (let pass = 0; pass < MAX_PASSES && !requirements.every(passes); pass++) {
+    for (const req of requirements) {
+      if (passes(req)) continue;
+
+      const foreground = findNearestPassing(roles[req.foreground], candidate =>
+        meetsTarget(candidate, roles[req.background], target, req.large));
+      if (foreground) {
+        roles[req.foreground] = foreground.hex;
+        continue;
+      }
+
+      const background = findNearestPassing(roles[req.background], candidate =>
+        meetsTarget(roles[req.foreground], candidate, target, req.large));
+      if (background) {
+        roles[req.background] = background.hex;
+      }
+    }
+  }
+
+  const changes = (Object.keys(roles) as PaletteRole[])
+    .filter(role => roles[role].toLowerCase() !== palette[role].toLowerCase())
+    .map(role => ({
+      role,
+      before: palette[role],
+      after: roles[role],
+      deltaE: deltaEOK(hexToOklab(palette[role]), hexToOklab(roles[role])),
+    }));
+
+  // Keep the swatch list in sync with the roles it contained
+  const replacements = new Map(changes.map(c => [c.before.toLowerCase(), c.after]));
+  const colors = palette.colors.map(c => replacements.get(c.toLowerCase()) ?? c);
+
+  return {
+    palette: { ...palette, ...roles, colors },
+    changes,
+    unresolved: requirements.filter(req => !passes(req)),
+  };
+};
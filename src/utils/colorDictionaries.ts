@@ -0,0 +1,130 @@
+export type ColorDictionaryId = 'css' | 'xkcd' | 'pantone' | 'ral';
+
+export interface NamedColor {
+  name: string;
+  hex: string;
+  // Catalogue code, when the set has one (e.g. "RAL 5002")
+  code?: string;
+}
+
+export interface ColorDictionary {
+  id: ColorDictionaryId;
+  label: string;
+  entries: NamedColor[];
+}
+
+// [name, hex] pairs keep the tables compact
+type Pair = [string, string];
+
+const fromPairs = (pairs: Pair[]): NamedColor[] => pairs.map(([name, hex]) => ({ name, hex }));
+
+// CSS Color Module Level 4 named colors (gray/grey aliases listed once)
+const CSS_COLORS: Pair[] = [
+  ['aliceblue', '#f0f8ff'], ['antiquewhite', '#faebd7'], ['aqua', '#00ffff'], ['aquamarine', '#7fffd4'],
+  ['azure', '#f0ffff'], ['beige', '#f5f5dc'], ['bisque', '#ffe4c4'], ['black', '#000000'],
+  ['blanchedalmond', '#ffebcd'], ['blue', '#0000ff'], ['blueviolet', '#8a2be2'], ['brown', '#a52a2a'],
+  ['burlywood', '#deb887'], ['cadetblue', '#5f9ea0'], ['chartreuse', '#7fff00'], ['chocolate', '#d2691e'],
+  ['coral', '#ff7f50'], ['cornflowerblue', '#6495ed'], ['cornsilk', '#fff8dc'], ['crimson', '#dc143c'],
+  ['darkblue', '#00008b'], ['darkcyan', '#008b8b'], ['darkgoldenrod', '#b8860b'], ['darkgray', '#a9a9a9'],
+  ['darkgreen', '#006400'], ['darkkhaki', '#bdb76b'], ['darkmagenta', '#8b008b'], ['darkolivegreen', '#556b2f'],
+  ['darkorange', '#ff8c00'], ['darkorchid', '#9932cc'], ['darkred', '#8b0000'], ['darksalmon', '#e9967a'],
+  ['darkseagreen', '#8fbc8f'], ['darkslateblue', '#483d8b'], ['darkslategray', '#2f4f4f'], ['darkturquoise', '#00ced1'],
+  ['darkviolet', '#9400d3'], ['deeppink', '#ff1493'], ['deepskyblue', '#00bfff'], ['dimgray', '#696969'],
+  ['dodgerblue', '#1e90ff'], ['firebrick', '#b22222'], ['floralwhite', '#fffaf0'], ['forestgreen', '#228b22'],
+  ['fuchsia', '#ff00ff'], ['gainsboro', '#dcdcdc'], ['ghostwhite', '#f8f8ff'], ['gold', '#ffd700'],
+  ['goldenrod', '#daa520'], ['gray', '#808080'], ['green', '#008000'], ['greenyellow', '#adff2f'],
+  ['honeydew', '#f0fff0'], ['hotpink', '#ff69b4'], ['indianred', '#cd5c5c'], ['indigo', '#4b0082'],
+  ['ivory', '#fffff0'], ['khaki', '#f0e68c'], ['lavender', '#e6e6fa'], ['lavenderblush', '#fff0f5'],
+  ['lawngreen', '#7cfc00'], ['lemonchiffon', '#fffacd'], ['lightblue', '#add8e6'], ['lightcoral', '#f08080'],
+  ['lightcyan', '#e0ffff'], ['lightgoldenrodyellow', '#fafad2'], ['lightgray', '#d3d3d3'], ['lightgreen', '#90ee90'],
+  ['lightpink', '#ffb6c1'], ['lightsalmon', '#ffa07a'], ['lightseagreen', '#20b2aa'], ['lightskyblue', '#87cefa'],
+  ['lightslategray', '#778899'], ['lightsteelblue', '#b0c4de'], ['lightyellow', '#ffffe0'], ['lime', '#00ff00'],
+  ['limegreen', '#32cd32'], ['linen', '#faf0e6'], ['maroon', '#800000'], ['mediumaquamarine', '#66cdaa'],
+  ['mediumblue', '#0000cd'], ['mediumorchid', '#ba55d3'], ['mediumpurple', '#9370db'], ['mediumseagreen', '#3cb371'],
+  ['mediumslateblue', '#7b68ee'], ['mediumspringgreen', '#00fa9a'], ['mediumturquoise', '#48d1cc'], ['mediumvioletred', '#c71585'],
+  ['midnightblue', '#191970'], ['mintcream', '#f5fffa'], ['mistyrose', '#ffe4e1'], ['moccasin', '#ffe4b5'],
+  ['navajowhite', '#ffdead'], ['navy', '#000080'], ['oldlace', '#fdf5e6'], ['olive', '#808000'],
+  ['olivedrab', '#6b8e23'], ['orange', '#ffa500'], ['orangered', '#ff4500'], ['orchid', '#da70d6'],
+  ['palegoldenrod', '#eee8aa'], ['palegreen', '#98fb98'], ['paleturquoise', '#afeeee'], ['palevioletred', '#db7093'],
+  ['papayawhip', '#ffefd5'], ['peachpuff', '#ffdab9'], ['peru', '#cd853f'], ['pink', '#ffc0cb'],
+  ['plum', '#dda0dd'], ['powderblue', '#b0e0e6'], ['purple', '#800080'], ['rebeccapurple', '#663399'],
+  ['red', '#ff0000'], ['rosybrown', '#bc8f8f'], ['royalblue', '#4169e1'], ['saddlebrown', '#8b4513'],
+  ['salmon', '#fa8072'], ['sandybrown', '#f4a460'], ['seagreen', '#2e8b57'], ['seashell', '#fff5ee'],
+  ['sienna', '#a0522d'], ['silver', '#c0c0c0'], ['skyblue', '#87ceeb'], ['slateblue', '#6a5acd'],
+  ['slategray', '#708090'], ['snow', '#fffafa'], ['springgreen', '#00ff7f'], ['steelblue', '#4682b4'],
+  ['tan', '#d2b48c'], ['teal', '#008080'], ['thistle', '#d8bfd8'], ['tomato', '#ff6347'],
+  ['turquoise', '#40e0d0'], ['violet', '#ee82ee'], ['wheat', '#f5deb3'], ['white', '#ffffff'],
+  ['whitesmoke', '#f5f5f5'], ['yellow', '#ffff00'], ['yellowgreen', '#9acd32'],
+];
+
+// The most common names from the XKCD color survey (https://xkcd.com/color/rgb/)
+const XKCD_COLORS: Pair[] = [
+  ['purple', '#7e1e9c'], ['green', '#15b01a'], ['blue', '#0343df'], ['pink', '#ff81c0'],
+  ['brown', '#653700'], ['red', '#e50000'], ['light blue', '#95d0fc'], ['teal', '#029386'],
+  ['orange', '#f97306'], ['light green', '#96f97b'], ['magenta', '#c20078'], ['yellow', '#ffff14'],
+  ['sky blue', '#75bbfd'], ['grey', '#929591'], ['lime green', '#89fe05'], ['light purple', '#bf77f6'],
+  ['violet', '#9a0eea'], ['dark green', '#033500'], ['turquoise', '#06c2ac'], ['lavender', '#c79fef'],
+  ['dark blue', '#00035b'], ['tan', '#d1b26f'], ['cyan', '#00ffff'], ['aqua', '#13eac9'],
+  ['forest green', '#06470c'], ['mauve', '#ae7181'], ['dark purple', '#35063e'], ['bright green', '#01ff07'],
+  ['maroon', '#650021'], ['olive', '#6e750e'], ['salmon', '#ff796c'], ['beige', '#e6daa6'],
+  ['royal blue', '#0504aa'], ['navy blue', '#001146'], ['lilac', '#cea2fd'], ['black', '#000000'],
+  ['hot pink', '#ff028d'], ['light brown', '#ad8150'], ['pale green', '#c7fdb5'], ['peach', '#ffb07c'],
+  ['olive green', '#677a04'], ['dark pink', '#cb416b'], ['periwinkle', '#8e82fe'], ['sea green', '#53fca1'],
+  ['lime', '#aaff32'], ['indigo', '#380282'], ['mustard', '#ceb301'], ['light pink', '#ffd1df'],
+  ['rose', '#cf6275'], ['bright blue', '#0165fc'], ['neon green', '#0cff0c'], ['burnt orange', '#c04e01'],
+  ['aquamarine', '#04d8b2'], ['navy', '#01153e'], ['grass green', '#3f9b0b'], ['pale blue', '#d0fefe'],
+  ['dark red', '#840000'], ['bright purple', '#be03fd'], ['yellow green', '#c0fb2d'], ['baby blue', '#a2cffe'],
+  ['gold', '#dbb40c'], ['mint green', '#8fff9f'], ['plum', '#580f41'], ['royal purple', '#4b006e'],
+  ['brick red', '#8f1402'], ['dark teal', '#014d4e'], ['burgundy', '#610023'], ['khaki', '#aaa662'],
+  ['blue green', '#137e6d'], ['seafoam green', '#7af9ab'], ['kelly green', '#02ab2e'], ['pea green', '#8eab12'],
+  ['taupe', '#b9a281'], ['dark brown', '#341c02'], ['deep purple', '#36013f'], ['chartreuse', '#c1f80a'],
+  ['bright pink', '#fe01b1'], ['light orange', '#fdaa48'], ['mint', '#9ffeb0'], ['pastel green', '#b0ff9d'],
+  ['sand', '#e2ca76'], ['dark orange', '#c65102'], ['spring green', '#a9f971'], ['puce', '#a57e52'],
+  ['grey blue', '#6b8ba4'], ['army green', '#4b5d16'], ['dark grey', '#363737'], ['dark yellow', '#d5b60a'],
+  ['goldenrod', '#fac205'], ['slate', '#516572'], ['light teal', '#90e4c1'], ['rust', '#a83c09'],
+  ['deep blue', '#040273'], ['pale pink', '#ffcfdc'], ['cerulean', '#0485d1'], ['light red', '#ff474c'],
+  ['ochre', '#bf9005'], ['pale yellow', '#ffff84'], ['crimson', '#8c000f'], ['fuchsia', '#ed0dd9'],
+  ['hunter green', '#0b4008'], ['blue grey', '#607c8e'], ['slate blue', '#5b7c99'], ['pale purple', '#b790d4'],
+  ['sea blue', '#047495'], ['light grey', '#d8dcd6'], ['leaf green', '#5ca904'], ['light yellow', '#fffe7a'],
+  ['eggplant', '#380835'], ['steel blue', '#5a7d9a'], ['moss green', '#658b38'], ['sage', '#87ae73'],
+  ['brick', '#a03623'], ['burnt sienna', '#b04e0f'], ['cream', '#ffffc2'], ['coral', '#fc5a50'],
+  ['ocean blue', '#03719c'], ['dark magenta', '#960056'], ['midnight blue', '#020035'], ['light violet', '#d6b4fc'],
+  ['dusty rose', '#c0737a'], ['cornflower blue', '#5170d7'], ['bright red', '#ff000d'], ['azure', '#069af3'],
+  ['electric blue', '#0652ff'], ['off white', '#ffffe4'], ['powder blue', '#b1d1fc'], ['wine', '#80013f'],
+  ['apple green', '#76cd26'], ['bright yellow', '#fffd01'], ['white', '#ffffff'],
+];
+
+// Pantone-style fashion names; hex values are common approximations, not official references
+const PANTONE_LIKE_COLORS: Pair[] = [
+  ['Cerulean', '#98b4d4'], ['Fuchsia Rose', '#c3447a'], ['True Red', '#bc243c'], ['Aqua Sky', '#7fcdcd'],
+  ['Tigerlily', '#e15d44'], ['Blue Turquoise', '#55b4b0'], ['Sand Dollar', '#dfcfbe'], ['Chili Pepper', '#9b1b30'],
+  ['Blue Iris', '#5a5b9f'], ['Mimosa', '#f0c05a'], ['Turquoise', '#45b5aa'], ['Honeysuckle', '#d94f70'],
+  ['Tangerine Tango', '#dd4124'], ['Emerald', '#009473'], ['Radiant Orchid', '#b565a7'], ['Marsala', '#955251'],
+  ['Rose Quartz', '#f7cac9'], ['Serenity', '#92a8d1'], ['Greenery', '#88b04b'], ['Ultra Violet', '#5f4b8b'],
+  ['Living Coral', '#ff6f61'], ['Classic Blue', '#0f4c81'], ['Illuminating', '#f5df4d'], ['Ultimate Gray', '#939597'],
+  ['Very Peri', '#6667ab'], ['Viva Magenta', '#bb2649'], ['Peach Fuzz', '#ffbe98'], ['Mocha Mousse', '#a47864'],
+];
+
+// RAL Classic names; hex values are screen approximations of the physical samples
+const RAL_LIKE_COLORS: NamedColor[] = [
+  ['1000', 'Green beige', '#bebd7f'], ['1001', 'Beige', '#c2b078'], ['1003', 'Signal yellow', '#e5be01'],
+  ['1004', 'Golden yellow', '#cda434'], ['1013', 'Oyster white', '#eae6ca'], ['1015', 'Light ivory', '#e6d690'],
+  ['1018', 'Zinc yellow', '#f8f32b'], ['1021', 'Rape yellow', '#f3da0b'], ['1023', 'Traffic yellow', '#fad201'],
+  ['2000', 'Yellow orange', '#ed760e'], ['2004', 'Pure orange', '#f44611'], ['2009', 'Traffic orange', '#f54021'],
+  ['3000', 'Flame red', '#af2b1e'], ['3003', 'Ruby red', '#9b111e'], ['3005', 'Wine red', '#5e2129'],
+  ['3020', 'Traffic red', '#cc0605'], ['4005', 'Blue lilac', '#6c4675'], ['4006', 'Traffic purple', '#a03472'],
+  ['5002', 'Ultramarine blue', '#20214f'], ['5005', 'Signal blue', '#1e2460'], ['5010', 'Gentian blue', '#0e294b'],
+  ['5012', 'Light blue', '#3b83bd'], ['5015', 'Sky blue', '#2271b3'], ['5017', 'Traffic blue', '#063971'],
+  ['6002', 'Leaf green', '#2d572c'], ['6005', 'Moss green', '#2f4538'], ['6018', 'Yellow green', '#57a639'],
+  ['6024', 'Traffic green', '#308446'], ['6029', 'Mint green', '#20603d'], ['7001', 'Silver grey', '#8a9597'],
+  ['7016', 'Anthracite grey', '#293133'], ['7035', 'Light grey', '#d7d7d7'], ['7040', 'Window grey', '#9da1aa'],
+  ['8011', 'Nut brown', '#5b3a29'], ['8017', 'Chocolate brown', '#45322e'], ['9001', 'Cream', '#fdf4e3'],
+  ['9005', 'Jet black', '#0a0a0a'], ['9010', 'Pure white', '#ffffff'], ['9016', 'Traffic white', '#f6f6f6'],
+].map(([code, name, hex]) => ({ name, hex, code: `RAL ${code}` }));
+
+export const colorDictionaries: ColorDictionary[] = [
+  { id: 'css', label: 'CSS', entries: fromPairs(CSS_COLORS) },
+  { id: 'xkcd', label: 'XKCD', entries: fromPairs(XKCD_COLORS) },
+  { id: 'pantone', label: 'Pantone (approx.)', entries: fromPairs(PANTONE_LIKE_COLORS) },
+  { id: 'ral', label: 'RAL (approx.)', entries: RAL_LIKE_COLORS },
+];
@@ -0,0 +1,77 @@
+import type { Lab } from '../types';
+import { hexToLab } from './colorUtils';
+import { deltaE2000 } from './colorSpaces';
+import { colorDictionaries, type ColorDictionaryId, type NamedColor } from './colorDictionaries';
+
+export { colorDictionaries, type ColorDictionaryId } from './colorDictionaries';
+
+export const DEFAULT_NAME_DICTIONARY: ColorDictionaryId = 'css';
+
+export interface ColorNameMatch {
+  name: string;
+  // Hex of the dictionary entry, not of the queried color
+  hex: string;
+  code?: string;
+  // CIEDE2000 distance between the queried color and the entry
+  deltaE: number;
+  dictionary: ColorDictionaryId;
+}
+
+// Dictionary entries converted to Lab on first use
+const labCache = new Map<ColorDictionaryId, { entry: NamedColor; lab: Lab }[]>();
+
+const dictionaryPoints = (id: ColorDictionaryId) => {
+  let points = labCache.get(id);
+  if (!points) {
+    const dictionary = colorDictionaries.find(d => d.id === id) ?? colorDictionaries[0];
+    points = dictionary.entries.map(entry => ({ entry, lab: hexToLab(entry.hex) }));
+    labCache.set(id, points);
+  }
+  return points;
+};
+
+/**
+ * Nearest named color in a dictionary, by CIEDE2000
+ */
+export const findNearestColorName = (
+  hex: string,
+  dictionary: ColorDictionaryId = DEFAULT_NAME_DICTIONARY
+): ColorNameMatch => {
+  const target = hexToLab(hex);
+  let best = { entry: dictionaryPoints(dictionary)[0].entry, deltaE: Infinity };
+
+  for (const { entry, lab } of dictionaryPoints(dictionary)) {
+    const deltaE = deltaE2000(target, lab);
+    if (deltaE < best.deltaE) best = { entry, deltaE };
+  }
+
+  return { ...best.entry, deltaE: best.deltaE, dictionary };
+};
+
+// "cornflowerblue" and "sky blue" both read as human labels once title-cased
+const titleCase = (name: string): string =>
+  name.replace(/\b\w/g, c => c.toUpperCase());
+
+/**
+ * Palette name from its colors: the first color plus the one that differs most from it,
+ * e.g. "Royal Blue & Coral". Uses the XKCD names, which read better than CSS keywords.
+ */
+export const generatePaletteName = (colors: string[], dictionary: ColorDictionaryId = 'xkcd'): string => {
+  if (colors.length === 0) return 'Palette';
+
+  const base = hexToLab(colors[0]);
+  const contrast = colors.slice(1).reduce<{ hex: string; distance: number } | null>((best, hex) => {
+    const distance = deltaE2000(base, hexToLab(hex));
+    return !best || distance > best.distance ? { hex, distance } : best;
+  }, null);
+
+  const first = titleCase(findNearestColorName(colors[0], dictionary).name);
+  if (!contrast) return first;
+
+  const second = titleCase(findNearestColorName(contrast.hex, dictionary).name);
+  return second === first ? first : `${first} & ${second}`;
+};
+
+// Label with the catalogue code when the dictionary has one, e.g. "RAL 5002 Ultramarine blue"
+export const formatColorName = (match: ColorNameMatch): string =>
+  match.code ? `${match.code} ${match.name}` : match.name;
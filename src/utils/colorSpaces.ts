@@ -0,0 +1,316 @@
+import type { RGB, LinearRGB, XYZ, OKLab, OKLCH, Lab, LCh } from '../types';
+
+type Matrix3 = readonly [readonly [number, number, number], readonly [number, number, number], readonly [number, number, number]];
+type Vector3 = [number, number, number];
+
+// D65 reference white (x = 0.3127, y = 0.3290), Y normalised to 1
+export const D65_WHITE: XYZ = { x: 0.3127 / 0.329, y: 1, z: (1 - 0.3127 - 0.329) / 0.329 };
+
+// Matrices from CSS Color Module Level 4
+const LINEAR_SRGB_TO_XYZ: Matrix3 = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+
+const XYZ_TO_LINEAR_SRGB: Matrix3 = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+
+const XYZ_TO_LMS: Matrix3 = [
+  [0.819022437996703, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+];
+
+const LMS_TO_XYZ: Matrix3 = [
+  [1.2268798758459243, -0.5578149944602171, 0.2813910456659647],
+  [-0.0405757452148008, 1.112286803280317, -0.0717110580655164],
+  [-0.0763729366746601, -0.4214933324022432, 1.5869240198367816],
+];
+
+const LMS_TO_OKLAB: Matrix3 = [
+  [0.210454268309314, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.4285922420485799, 0.450593709617411],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757549230774],
+];
+
+const OKLAB_TO_LMS: Matrix3 = [
+  [1, 0.3963377773761749, 0.2158037573099136],
+  [1, -0.1055613458156586, -0.0638541728258133],
+  [1, -0.0894841775298119, -1.2914855480194092],
+];
+
+const multiply = (m: Matrix3, [a, b, c]: Vector3): Vector3 => [
+  m[0][0] * a + m[0][1] * b + m[0][2] * c,
+  m[1][0] * a + m[1][1] * b + m[1][2] * c,
+  m[2][0] * a + m[2][1] * b + m[2][2] * c,
+];
+
+// Helper: Wrap any angle into [0, 360)
+export const normalizeHue = (hue: number): number => ((hue % 360) + 360) % 360;
+
+const toPolar = (a: number, b: number): { c: number; h: number } => {
+  const c = Math.sqrt(a * a + b * b);
+  // Below this chroma the hue angle is just noise
+  const h = c < 1e-4 ? 0 : normalizeHue((Math.atan2(b, a) * 180) / Math.PI);
+  return { c, h };
+};
+
+const fromPolar = (c: number, h: number): { a: number; b: number } => {
+  const rad = (h * Math.PI) / 180;
+  return { a: c * Math.cos(rad), b: c * Math.sin(rad) };
+};
+
+// sRGB transfer function
+const toLinearChannel = (v: number): number => {
+  const abs = Math.abs(v);
+  return abs <= 0.04045 ? v / 12.92 : Math.sign(v) * Math.pow((abs + 0.055) / 1.055, 2.4);
+};
+
+const toGammaChannel = (v: number): number => {
+  const abs = Math.abs(v);
+  return abs <= 0.0031308 ? v * 12.92 : Math.sign(v) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055);
+};
+
+export const rgbToLinear = ({ r, g, b }: RGB): LinearRGB => ({
+  r: toLinearChannel(r / 255),
+  g: toLinearChannel(g / 255),
+  b: toLinearChannel(b / 255),
+});
+
+// Relative luminance as defined by WCAG 2.x
+export const rgbToRelativeLuminance = (rgb: RGB): number => {
+  const { r, g, b } = rgbToLinear(rgb);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// Values outside 0-255 are kept so callers can detect out-of-gamut colors
+export const linearToRgb = ({ r, g, b }: LinearRGB): RGB => ({
+  r: toGammaChannel(r) * 255,
+  g: toGammaChannel(g) * 255,
+  b: toGammaChannel(b) * 255,
+});
+
+export const linearToXyz = ({ r, g, b }: LinearRGB): XYZ => {
+  const [x, y, z] = multiply(LINEAR_SRGB_TO_XYZ, [r, g, b]);
+  return { x, y, z };
+};
+
+export const xyzToLinear = ({ x, y, z }: XYZ): LinearRGB => {
+  const [r, g, b] = multiply(XYZ_TO_LINEAR_SRGB, [x, y, z]);
+  return { r, g, b };
+};
+
+export const rgbToXyz = (rgb: RGB): XYZ => linearToXyz(rgbToLinear(rgb));
+
+export const xyzToRgb = (xyz: XYZ): RGB => linearToRgb(xyzToLinear(xyz));
+
+// OKLab / OKLCH
+export const xyzToOklab = (xyz: XYZ): OKLab => {
+  const lms = multiply(XYZ_TO_LMS, [xyz.x, xyz.y, xyz.z]).map(Math.cbrt) as Vector3;
+  const [l, a, b] = multiply(LMS_TO_OKLAB, lms);
+  return { l, a, b };
+};
+
+export const oklabToXyz = ({ l, a, b }: OKLab): XYZ => {
+  const lms = multiply(OKLAB_TO_LMS, [l, a, b]).map(v => v * v * v) as Vector3;
+  const [x, y, z] = multiply(LMS_TO_XYZ, lms);
+  return { x, y, z };
+};
+
+export const oklabToOklch = ({ l, a, b }: OKLab): OKLCH => ({ l, ...toPolar(a, b) });
+
+export const oklchToOklab = ({ l, c, h }: OKLCH): OKLab => ({ l, ...fromPolar(c, h) });
+
+export const rgbToOklab = (rgb: RGB): OKLab => xyzToOklab(rgbToXyz(rgb));
+
+export const oklabToRgb = (lab: OKLab): RGB => xyzToRgb(oklabToXyz(lab));
+
+export const rgbToOklch = (rgb: RGB): OKLCH => oklabToOklch(rgbToOklab(rgb));
+
+export const oklchToRgb = (lch: OKLCH): RGB => oklabToRgb(oklchToOklab(lch));
+
+// CIELAB / LCh (D65)
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+export const xyzToLab = ({ x, y, z }: XYZ): Lab => {
+  const f = (t: number) => (t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116);
+  const fx = f(x / D65_WHITE.x);
+  const fy = f(y / D65_WHITE.y);
+  const fz = f(z / D65_WHITE.z);
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz),
+  };
+};
+
+export const labToXyz = ({ l, a, b }: Lab): XYZ => {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const fInv = (t: number) => (t * t * t > LAB_EPSILON ? t * t * t : (116 * t - 16) / LAB_KAPPA);
+  return {
+    x: fInv(fx) * D65_WHITE.x,
+    y: (l > LAB_KAPPA * LAB_EPSILON ? fy * fy * fy : l / LAB_KAPPA) * D65_WHITE.y,
+    z: fInv(fz) * D65_WHITE.z,
+  };
+};
+
+export const labToLch = ({ l, a, b }: Lab): LCh => ({ l, ...toPolar(a, b) });
+
+export const lchToLab = ({ l, c, h }: LCh): Lab => ({ l, ...fromPolar(c, h) });
+
+export const rgbToLab = (rgb: RGB): Lab => xyzToLab(rgbToXyz(rgb));
+
+export const labToRgb = (lab: Lab): RGB => xyzToRgb(labToXyz(lab));
+
+export const rgbToLch = (rgb: RGB): LCh => labToLch(rgbToLab(rgb));
+
+export const lchToRgb = (lch: LCh): RGB => labToRgb(lchToLab(lch));
+
+// Color difference
+export const deltaEOK = (a: OKLab, b: OKLab): number =>
+  Math.sqrt((a.l - b.l) ** 2 + (a.a - b.a) ** 2 + (a.b - b.b) ** 2);
+
+export const deltaE76 = (a: Lab, b: Lab): number =>
+  Math.sqrt((a.l - b.l) ** 2 + (a.a - b.a) ** 2 + (a.b - b.b) ** 2);
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+// CIEDE2000 (Sharma, Wu, Dalal 2005) with kL = kC = kH = 1
+export const deltaE2000 = (first: Lab, second: Lab): number => {
+  const c1 = Math.hypot(first.a, first.b);
+  const c2 = Math.hypot(second.a, second.b);
+  const cMean7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + 25 ** 7)));
+
+  const a1 = first.a * (1 + g);
+  const a2 = second.a * (1 + g);
+  const c1p = Math.hypot(a1, first.b);
+  const c2p = Math.hypot(a2, second.b);
+  const h1p = c1p === 0 ? 0 : normalizeHue((Math.atan2(first.b, a1) * 180) / Math.PI);
+  const h2p = c2p === 0 ? 0 : normalizeHue((Math.atan2(second.b, a2) * 180) / Math.PI);
+
+  const deltaL = second.l - first.l;
+  const deltaC = c2p - c1p;
+  let deltaH = 0;
+  if (c1p * c2p !== 0) {
+    deltaH = h2p - h1p;
+    if (deltaH > 180) deltaH -= 360;
+    else if (deltaH < -180) deltaH += 360;
+  }
+  const deltaHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(deltaH / 2));
+
+  const lMean = (first.l + second.l) / 2;
+  const cMeanP = (c1p + c2p) / 2;
+  let hMean = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    hMean = Math.abs(h1p - h2p) <= 180 ? hMean / 2 : (hMean < 360 ? (hMean + 360) / 2 : (hMean - 360) / 2);
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRadians(hMean - 30))
+    + 0.24 * Math.cos(toRadians(2 * hMean))
+    + 0.32 * Math.cos(toRadians(3 * hMean + 6))
+    - 0.2 * Math.cos(toRadians(4 * hMean - 63));
+  const sL = 1 + (0.015 * (lMean - 50) ** 2) / Math.sqrt(20 + (lMean - 50) ** 2);
+  const sC = 1 + 0.045 * cMeanP;
+  const sH = 1 + 0.015 * cMeanP * t;
+  const cMeanP7 = cMeanP ** 7;
+  const rT = -2 * Math.sqrt(cMeanP7 / (cMeanP7 + 25 ** 7))
+    * Math.sin(toRadians(60 * Math.exp(-(((hMean - 275) / 25) ** 2))));
+
+  const l = deltaL / sL;
+  const c = deltaC / sC;
+  const h = deltaHp / sH;
+  return Math.sqrt(l * l + c * c + h * h + rT * c * h);
+};
+
+// Gamut mapping (tolerance is half a step of 8-bit rounding)
+const GAMUT_EPSILON = 0.5;
+
+export const isRgbInGamut = ({ r, g, b }: RGB): boolean =>
+  [r, g, b].every(v => v >= -GAMUT_EPSILON && v <= 255 + GAMUT_EPSILON);
+
+export const clipRgb = ({ r, g, b }: RGB): RGB => ({
+  r: Math.min(255, Math.max(0, r)),
+  g: Math.min(255, Math.max(0, g)),
+  b: Math.min(255, Math.max(0, b)),
+});
+
+// Binary search on chroma shared by the OKLCH and LCh mappers
+const reduceChroma = <T extends { l: number; c: number; h: number }>(
+  color: T,
+  toRgb: (color: T) => RGB,
+  difference: (clipped: RGB, color: T) => number,
+  jnd: number
+): RGB => {
+  const EPSILON = jnd / 200;
+
+  const direct = toRgb(color);
+  if (isRgbInGamut(direct)) return clipRgb(direct);
+
+  let clipped = clipRgb(direct);
+  if (difference(clipped, color) < jnd) return clipped;
+
+  let min = 0;
+  let max = color.c;
+  let minInGamut = true;
+
+  while (max - min > EPSILON) {
+    const current: T = { ...color, c: (min + max) / 2 };
+    const rgb = toRgb(current);
+
+    if (minInGamut && isRgbInGamut(rgb)) {
+      min = current.c;
+      continue;
+    }
+
+    clipped = clipRgb(rgb);
+    const delta = difference(clipped, current);
+    if (delta < jnd) {
+      if (jnd - delta < EPSILON) return clipped;
+      minInGamut = false;
+      min = current.c;
+    } else {
+      max = current.c;
+    }
+  }
+
+  return clipped;
+};
+
+/**
+ * Maps an OKLCH color into sRGB following the CSS Color 4 algorithm:
+ * chroma is reduced by binary search (hue and lightness are preserved)
+ * until clipping the result is within one just-noticeable difference.
+ */
+export const gamutMapOklch = (color: OKLCH): RGB => {
+  if (color.l >= 1) return { r: 255, g: 255, b: 255 };
+  if (color.l <= 0) return { r: 0, g: 0, b: 0 };
+
+  return reduceChroma(
+    color,
+    oklchToRgb,
+    (clipped, current) => deltaEOK(rgbToOklab(clipped), oklchToOklab(current)),
+    0.02
+  );
+};
+
+// Same algorithm in CIE LCh, using ΔE76 with its usual JND of ~2
+export const gamutMapLch = (color: LCh): RGB => {
+  if (color.l >= 100) return { r: 255, g: 255, b: 255 };
+  if (color.l <= 0) return { r: 0, g: 0, b: 0 };
+
+  return reduceChroma(
+    color,
+    lchToRgb,
+    (clipped, current) => deltaE76(rgbToLab(clipped), lchToLab(current)),
+    2
+  );
+};
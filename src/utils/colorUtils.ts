@@ -1,12 +1,38 @@
-import type { ColorPalette } from '../types';
+import type {
+  ColorPalette,
+  HarmonyOptions,
+  HarmonySpace,
+  HueHarmony,
+  OKLab,
+  OKLCH,
+  Lab,
+  LCh,
+  TonalCurve,
+  TonalScale,
+  TonalScaleOptions,
+  TonalStep,
+} from '../types';
+import {
+  rgbToOklab,
+  rgbToOklch,
+  rgbToLab,
+  rgbToLch,
+  gamutMapOklch,
+  gamutMapLch,
+  normalizeHue,
+  rgbToRelativeLuminance,
+} from './colorSpaces';
 
 // Export individual functions
 export const getRandomColor = (): string => {
   return `#${Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0')}`;
 };
 
+// Accepts 3, 4, 6 and 8 digit hex (alpha is ignored); anything else is black, use parseCssColor to validate input
 export const hexToRgb = (hex: string): { r: number; g: number; b: number } => {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  const digits = hex.replace(/^#/, '');
+  const full = /^[a-f\d]{3,4}$/i.test(digits) ? digits.split('').map(c => c + c).join('') : digits;
+  const result = /^([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})(?:[a-f\d]{2})?$/i.exec(full);
   return result ? {
     r: parseInt(result[1], 16),
     g: parseInt(result[2], 16),
@@ -21,80 +47,202 @@ export const rgbToHex = (r: number, g: number, b: number): string => {
   }).join('')}`;
 };
 
-export const getLuminance = (hexColor: string): number => {
-  const { r, g, b } = hexToRgb(hexColor);
-  const a = [r, g, b].map(v => {
-    v /= 255;
-    return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
-  });
-  return a[0] * 0.2126 + a[1] * 0.7152 + a[2] * 0.0722;
-};
+// WCAG relative luminance, kept here for existing callers
+export const getLuminance = (hexColor: string): number => rgbToRelativeLuminance(hexToRgb(hexColor));
 
 export const getContrastText = (hexColor: string): string => {
   const luminance = getLuminance(hexColor);
   return luminance > 0.5 ? '#000000' : '#ffffff';
 };
 
-export const generateAnalogous = (baseColor: string): string[] => {
-  const baseHsl = hexToHsl(baseColor);
-  const colors: string[] = [];
+// Perceptual conversions from/to hex (out-of-gamut results are gamut mapped)
+export const hexToOklab = (hex: string): OKLab => rgbToOklab(hexToRgb(hex));
+
+export const hexToOklch = (hex: string): OKLCH => rgbToOklch(hexToRgb(hex));
+
+export const hexToLab = (hex: string): Lab => rgbToLab(hexToRgb(hex));
+
+export const hexToLch = (hex: string): LCh => rgbToLch(hexToRgb(hex));
+
+const rgbObjectToHex = ({ r, g, b }: { r: number; g: number; b: number }): string =>
+  rgbToHex(Math.round(r), Math.round(g), Math.round(b));
+
+export const oklchToHex = (color: OKLCH): string => rgbObjectToHex(gamutMapOklch(color));
 
-  for (let i = -2; i <= 2; i++) {
-    const hue = (baseHsl.h + i * 30 + 360) % 360;
-    colors.push(hslToHex(hue, baseHsl.s, baseHsl.l));
+export const lchToHex = (color: LCh): string => rgbObjectToHex(gamutMapLch(color));
+
+// Helper: Rotate the hue of a color in the given space, keeping lightness and chroma
+export const rotateHue = (baseColor: string, degrees: number, space: HarmonySpace = 'hsl'): string => {
+  switch (space) {
+    case 'oklch': {
+      const color = hexToOklch(baseColor);
+      return oklchToHex({ ...color, h: normalizeHue(color.h + degrees) });
+    }
+    case 'lch': {
+      const color = hexToLch(baseColor);
+      return lchToHex({ ...color, h: normalizeHue(color.h + degrees) });
+    }
+    default: {
+      const hsl = hexToHsl(baseColor);
+      return hslToHex(normalizeHue(hsl.h + degrees), hsl.s, hsl.l);
+    }
   }
+};
 
-  return colors;
+// Helper: Set the lightness (0-100) of a color in the given space
+export const withLightness = (baseColor: string, lightness: number, space: HarmonySpace = 'hsl'): string => {
+  switch (space) {
+    case 'oklch':
+      return oklchToHex({ ...hexToOklch(baseColor), l: lightness / 100 });
+    case 'lch':
+      return lchToHex({ ...hexToLch(baseColor), l: lightness });
+    default: {
+      const hsl = hexToHsl(baseColor);
+      return hslToHex(hsl.h, hsl.s, lightness);
+    }
+  }
 };
 
-export const generateComplementary = (baseColor: string): string[] => {
-  const baseHsl = hexToHsl(baseColor);
-  const complementaryHue = (baseHsl.h + 180) % 360;
-  return [
-    baseColor,
-    hslToHex(complementaryHue, baseHsl.s, baseHsl.l)
-  ];
+// Deterministic noise in [-1, 1] per color and channel: the same parameters always give the same palette
+const jitterNoise = (index: number, channel: number): number => {
+  const x = Math.sin((index + 1) * 12.9898 + channel * 78.233) * 43758.5453;
+  return (x - Math.floor(x)) * 2 - 1;
 };
 
-export const generateTriadic = (baseColor: string): string[] => {
-  const baseHsl = hexToHsl(baseColor);
-  return [
-    baseColor,
-    hslToHex((baseHsl.h + 120) % 360, baseHsl.s, baseHsl.l),
-    hslToHex((baseHsl.h + 240) % 360, baseHsl.s, baseHsl.l)
-  ];
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Alpha (0-1) of a 4 or 8 digit hex; every other color is opaque
+export const hexAlpha = (hex: string): number => {
+  const digits = hex.replace(/^#/, '');
+  if (digits.length === 8) return parseInt(digits.slice(6), 16) / 255;
+  if (digits.length === 4) return parseInt(digits[3] + digits[3], 16) / 255;
+  return 1;
 };
 
-export const generateSplitComplementary = (baseColor: string): string[] => {
-  const baseHsl = hexToHsl(baseColor);
-  const complementaryHue = (baseHsl.h + 180) % 360;
-  return [
-    baseColor,
-    hslToHex((complementaryHue + 30) % 360, baseHsl.s, baseHsl.l),
-    hslToHex((complementaryHue - 30 + 360) % 360, baseHsl.s, baseHsl.l)
-  ];
+// Helper: Same color with the given alpha (0-1) as 8-digit hex; fully opaque colors stay 6-digit, case is kept
+export const withAlpha = (hex: string, alpha: number): string => {
+  const digits = hex.replace(/^#/, '');
+  const full = digits.length <= 4 ? digits.split('').map(c => c + c).join('') : digits;
+  const byte = Math.round(clamp(alpha, 0, 1) * 255);
+  if (byte >= 255) return `#${full.slice(0, 6)}`;
+  const suffix = byte.toString(16).padStart(2, '0');
+  return `#${full.slice(0, 6)}${full === full.toLowerCase() ? suffix : suffix.toUpperCase()}`;
 };
 
-export const generateTetradic = (baseColor: string): string[] => {
-  const baseHsl = hexToHsl(baseColor);
-  return [
-    baseColor,
-    hslToHex((baseHsl.h + 90) % 360, baseHsl.s, baseHsl.l),
-    hslToHex((baseHsl.h + 180) % 360, baseHsl.s, baseHsl.l),
-    hslToHex((baseHsl.h + 270) % 360, baseHsl.s, baseHsl.l)
-  ];
+// Helper: Opaque color seen when a translucent one is painted over an opaque backdrop (blended in sRGB, as browsers do)
+export const compositeOver = (hex: string, backdrop = '#ffffff'): string => {
+  const alpha = hexAlpha(hex);
+  if (alpha >= 1) return hex;
+  const top = hexToRgb(hex);
+  const bottom = hexToRgb(backdrop);
+  const mix = (a: number, b: number) => Math.round(a * alpha + b * (1 - alpha));
+  return rgbToHex(mix(top.r, bottom.r), mix(top.g, bottom.g), mix(top.b, bottom.b));
 };
 
-export const generateMonochromatic = (baseColor: string): string[] => {
-  const baseHsl = hexToHsl(baseColor);
-  const colors: string[] = [];
+// Helper: Offset lightness and saturation (chroma, relatively, in OKLCH/LCh) by up to the given percentage points
+export const jitterColor = (
+  color: string,
+  index: number,
+  lightness: number,
+  saturation: number,
+  space: HarmonySpace = 'hsl'
+): string => {
+  if (!lightness && !saturation) return color;
+  const dl = jitterNoise(index, 0) * lightness;
+  const ds = jitterNoise(index, 1) * saturation;
+
+  switch (space) {
+    case 'oklch': {
+      const { l, c, h } = hexToOklch(color);
+      return oklchToHex({ l: clamp(l + dl / 100, 0, 1), c: Math.max(0, c * (1 + ds / 100)), h });
+    }
+    case 'lch': {
+      const { l, c, h } = hexToLch(color);
+      return lchToHex({ l: clamp(l + dl, 0, 100), c: Math.max(0, c * (1 + ds / 100)), h });
+    }
+    default: {
+      const { h, s, l } = hexToHsl(color);
+      return hslToHex(h, clamp(s + ds, 0, 100), clamp(l + dl, 0, 100));
+    }
+  }
+};
+
+// Helper: Base color rotated by each offset; offset 0 is the base itself and is never jittered
+const rotateByOffsets = (baseColor: string, offsets: number[], options: HarmonyOptions): string[] => {
+  const { space, lightnessJitter = 0, saturationJitter = 0 } = options;
+  return offsets.map((offset, i) => offset === 0
+    ? baseColor
+    : jitterColor(rotateHue(baseColor, offset, space), i, lightnessJitter, saturationJitter, space));
+};
 
-  for (let i = 0; i < 5; i++) {
-    const lightness = 10 + (i * 20);
-    colors.push(hslToHex(baseHsl.h, baseHsl.s, lightness));
+/**
+ * Hue offsets in degrees of the colors of a hue-rotation harmony, in the order
+ * the generators return them; 0 is the base itself
+ */
+export const harmonyOffsets = (scheme: HueHarmony, options: HarmonyOptions = {}): number[] => {
+  const { includeBase = true } = options;
+  const base = includeBase ? [0] : [];
+
+  switch (scheme) {
+    case 'Analogous': {
+      const { spread = 30, count = 5 } = options;
+      // Steps alternate around the base (0, +1, -1, +2, -2...) and are then ordered by angle
+      const steps = Array.from({ length: includeBase ? count : count + 1 }, (_, i) => (i % 2 === 1 ? 1 : -1) * Math.ceil(i / 2))
+        .slice(includeBase ? 0 : 1)
+        .sort((a, b) => a - b);
+      return steps.map(step => step * spread);
+    }
+    case 'Complementary':
+      return [...base, 180];
+    case 'Triadic': {
+      const { spread = 120 } = options;
+      return [...base, spread, -spread];
+    }
+    case 'SplitComplementary': {
+      const { spread = 30 } = options;
+      return [...base, 180 + spread, 180 - spread];
+    }
+    case 'Tetradic': {
+      const { spread = 90 } = options;
+      return [...base, spread, 180, 180 + spread];
+    }
   }
+};
+
+export const generateAnalogous = (baseColor: string, options: HarmonyOptions = {}): string[] =>
+  rotateByOffsets(baseColor, harmonyOffsets('Analogous', options), options);
+
+export const generateComplementary = (baseColor: string, options: HarmonyOptions = {}): string[] =>
+  rotateByOffsets(baseColor, harmonyOffsets('Complementary', options), options);
+
+export const generateTriadic = (baseColor: string, options: HarmonyOptions = {}): string[] =>
+  rotateByOffsets(baseColor, harmonyOffsets('Triadic', options), options);
+
+export const generateSplitComplementary = (baseColor: string, options: HarmonyOptions = {}): string[] =>
+  rotateByOffsets(baseColor, harmonyOffsets('SplitComplementary', options), options);
+
+export const generateTetradic = (baseColor: string, options: HarmonyOptions = {}): string[] =>
+  rotateByOffsets(baseColor, harmonyOffsets('Tetradic', options), options);
+
+// Unlike the other harmonies the base is left out unless asked for, the steps already span its lightness
+export const generateMonochromatic = (baseColor: string, options: HarmonyOptions = {}): string[] => {
+  const {
+    space,
+    count = 5,
+    minLightness = 10,
+    maxLightness = 90,
+    lightnessJitter = 0,
+    saturationJitter = 0,
+    includeBase = false,
+  } = options;
+  const steps = includeBase ? count - 1 : count;
+
+  const colors = Array.from({ length: steps }, (_, i) => {
+    const lightness = steps === 1 ? (minLightness + maxLightness) / 2 : minLightness + ((maxLightness - minLightness) * i) / (steps - 1);
+    return jitterColor(withLightness(baseColor, lightness, space), i, lightnessJitter, saturationJitter, space);
+  });
 
-  return colors;
+  return includeBase ? [baseColor, ...colors] : colors;
 };
 
 export const generateMonochromaticAchromatic = (baseColor: string): string[] => {
@@ -107,9 +255,56 @@ export const generateMonochromaticAchromatic = (baseColor: string): string[] =>
   ];
 };
 
-export const generateLuminosityContrast = (baseColor: string, lightness: number): string => {
-  const baseHsl = hexToHsl(baseColor);
-  return hslToHex(baseHsl.h, baseHsl.s, lightness);
+export const generateLuminosityContrast = (baseColor: string, lightness: number, space: HarmonySpace = 'hsl'): string => {
+  return withLightness(baseColor, lightness, space);
+};
+
+export const TONAL_STEPS: readonly TonalStep[] = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+// OKLCH lightness targets for each step
+export const TONAL_CURVES: Record<TonalCurve, Record<TonalStep, number>> = {
+  // Fitted on the default Tailwind palette
+  tailwind: { 50: 0.97, 100: 0.935, 200: 0.88, 300: 0.81, 400: 0.71, 500: 0.62, 600: 0.54, 700: 0.47, 800: 0.4, 900: 0.35, 950: 0.26 },
+  linear: { 50: 0.97, 100: 0.9, 200: 0.83, 300: 0.76, 400: 0.69, 500: 0.62, 600: 0.55, 700: 0.48, 800: 0.41, 900: 0.34, 950: 0.27 },
+  // Narrower range, for muted UI ramps
+  soft: { 50: 0.95, 100: 0.91, 200: 0.86, 300: 0.8, 400: 0.73, 500: 0.66, 600: 0.59, 700: 0.53, 800: 0.47, 900: 0.42, 950: 0.37 },
+};
+
+/**
+ * Generates a 50-950 scale around a base color in OKLCH.
+ * The base is anchored at the step with the closest target lightness and the
+ * rest of the curve is bent towards it, so every step stays monotonic.
+ */
+export const generateTonalScale = (baseHex: string, options: TonalScaleOptions = {}): TonalScale => {
+  const { curve = 'tailwind', anchorBase = true, chromaEasing = 0.6 } = options;
+  const targets = typeof curve === 'string' ? TONAL_CURVES[curve] : curve;
+  const base = hexToOklch(baseHex);
+
+  const baseIndex = TONAL_STEPS.reduce((best, step, i) =>
+    Math.abs(targets[step] - base.l) < Math.abs(targets[TONAL_STEPS[best]] - base.l) ? i : best, 0);
+  const baseStep = TONAL_STEPS[baseIndex];
+  const offset = anchorBase ? base.l - targets[baseStep] : 0;
+  const lastIndex = TONAL_STEPS.length - 1;
+
+  const shades = {} as Record<TonalStep, string>;
+  TONAL_STEPS.forEach((step, i) => {
+    if (anchorBase && i === baseIndex) {
+      shades[step] = baseHex.toLowerCase();
+      return;
+    }
+
+    // 0 at the base step, 1 at the end of the scale on the same side
+    const span = i < baseIndex ? baseIndex : lastIndex - baseIndex;
+    const distance = span === 0 ? 1 : Math.abs(i - baseIndex) / span;
+
+    shades[step] = oklchToHex({
+      l: targets[step] + offset * (1 - distance),
+      c: base.c * (1 - chromaEasing * distance * distance),
+      h: base.h,
+    });
+  });
+
+  return { shades, baseStep };
 };
 
 // Helper: Convert hex to HSL
@@ -195,6 +390,28 @@ export const generateRandomPalette = (name: string): ColorPalette => {
   };
 };
 
+// Classic harmony offsets used to derive a new base from locked colors
+const LOCK_HARMONY_ANGLES = [30, -30, 120, -120, 150, -150, 180];
+
+/**
+ * Random base color in harmony with the given anchors (usually the locked
+ * swatches): one anchor rotated by a harmony angle, with a small lightness jitter.
+ * Falls back to a fully random color when there are no anchors.
+ */
+export const generateHarmoniousBase = (anchors: string[], space: HarmonySpace = 'oklch'): string => {
+  if (anchors.length === 0) return getRandomColor();
+
+  const anchor = anchors[Math.floor(Math.random() * anchors.length)];
+  const angle = LOCK_HARMONY_ANGLES[Math.floor(Math.random() * LOCK_HARMONY_ANGLES.length)];
+  const rotated = rotateHue(anchor, angle, space);
+  const lightness = hexToOklch(rotated).l * 100 + (Math.random() - 0.5) * 20;
+  return withLightness(rotated, Math.min(85, Math.max(25, lightness)), space);
+};
+
+// Keeps the locked positions of `previous` and takes every other color from `next`
+export const mergeLockedColors = (previous: string[], next: string[], locked: ReadonlySet<number>): string[] =>
+  next.map((color, i) => (locked.has(i) && previous[i] ? previous[i] : color));
+
 // Export all functions as default for backward compatibility
 export default {
   getRandomColor,
@@ -212,5 +429,16 @@ export default {
   generateLuminosityContrast,
   hexToHsl,
   hslToHex,
+  hexToOklab,
+  hexToOklch,
+  hexToLab,
+  hexToLch,
+  oklchToHex,
+  lchToHex,
+  rotateHue,
+  withLightness,
+  generateTonalScale,
+  generateHarmoniousBase,
+  mergeLockedColors,
   generateRandomPalette
 };
@@ -0,0 +1,98 @@
+import type { LinearRGB } from '../types';
+import { hexToRgb, rgbToHex } from './colorUtils';
+import { rgbToLinear, linearToRgb, linearToXyz, xyzToOklab, deltaEOK, clipRgb } from './colorSpaces';
+
+export type VisionDeficiency = 'normal' | 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+export const visionDeficiencies: { value: VisionDeficiency; label: string }[] = [
+  { value: 'normal', label: 'Normale' },
+  { value: 'protanopia', label: 'Protanopia' },
+  { value: 'deuteranopia', label: 'Deuteranopia' },
+  { value: 'tritanopia', label: 'Tritanopia' },
+  { value: 'achromatopsia', label: 'Acromatopsia' },
+];
+
+type Matrix3 = readonly [readonly [number, number, number], readonly [number, number, number], readonly [number, number, number]];
+
+// Machado, Oliveira & Fernandes (2009), severity 1.0, applied on linear RGB
+const MACHADO_MATRICES: Record<'protanopia' | 'deuteranopia' | 'tritanopia', Matrix3> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+};
+
+const simulateLinear = ({ r, g, b }: LinearRGB, deficiency: VisionDeficiency): LinearRGB => {
+  switch (deficiency) {
+    case 'normal':
+      return { r, g, b };
+    case 'achromatopsia': {
+      // Rod monochromacy: only relative luminance survives
+      const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      return { r: y, g: y, b: y };
+    }
+    default: {
+      const m = MACHADO_MATRICES[deficiency];
+      return {
+        r: m[0][0] * r + m[0][1] * g + m[0][2] * b,
+        g: m[1][0] * r + m[1][1] * g + m[1][2] * b,
+        b: m[2][0] * r + m[2][1] * g + m[2][2] * b,
+      };
+    }
+  }
+};
+
+// Returns how a color appears under the given deficiency
+export const simulateDeficiency = (hex: string, deficiency: VisionDeficiency): string => {
+  if (deficiency === 'normal') return hex;
+  const { r, g, b } = clipRgb(linearToRgb(simulateLinear(rgbToLinear(hexToRgb(hex)), deficiency)));
+  return rgbToHex(Math.round(r), Math.round(g), Math.round(b));
+};
+
+export interface ConfusablePair {
+  first: string;
+  second: string;
+  // OKLab distance between the two simulated colors
+  deltaE: number;
+}
+
+// Around 2.5 JNDs in OKLab: distinguishable side by side, but not reliably in a UI
+export const CONFUSION_THRESHOLD = 0.05;
+
+/**
+ * Lists the pairs of colors that remain distinct for normal vision but
+ * fall under the threshold once simulated for the given deficiency.
+ */
+export const findConfusablePairs = (
+  colors: string[],
+  deficiency: VisionDeficiency,
+  threshold = CONFUSION_THRESHOLD
+): ConfusablePair[] => {
+  const unique = [...new Set(colors.map(c => c.toLowerCase()))];
+  const toOklab = (hex: string) => xyzToOklab(linearToXyz(rgbToLinear(hexToRgb(hex))));
+  const original = unique.map(toOklab);
+  const simulated = unique.map(hex => toOklab(simulateDeficiency(hex, deficiency)));
+  const pairs: ConfusablePair[] = [];
+
+  for (let i = 0; i < unique.length; i++) {
+    for (let j = i + 1; j < unique.length; j++) {
+      const deltaE = deltaEOK(simulated[i], simulated[j]);
+      if (deltaE < threshold && deltaEOK(original[i], original[j]) >= threshold) {
+        pairs.push({ first: unique[i], second: unique[j], deltaE });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => a.deltaE - b.deltaE);
+};
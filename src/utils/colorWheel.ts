@@ -0,0 +1,93 @@
+import type { HarmonySpace } from '../types';
+import { hexToHsl, hexToLch, hexToOklch, hexToRgb, hslToHex, oklchToHex } from './colorUtils';
+import { isRgbInGamut, normalizeHue, oklchToRgb } from './colorSpaces';
+
+export type WheelSpace = 'hsl' | 'oklch';
+
+export const wheelSpaces: { value: WheelSpace; label: string }[] = [
+  { value: 'hsl', label: 'HSL' },
+  { value: 'oklch', label: 'OKLCH' },
+];
+
+// Chroma at the rim of the OKLCH wheel, just above the most saturated sRGB color
+export const WHEEL_MAX_CHROMA = 0.33;
+
+// Position on the wheel: hue in degrees (0 at the top, clockwise) and distance from the center (0-1)
+export interface WheelPoint {
+  hue: number;
+  radius: number;
+}
+
+export const colorToWheel = (hex: string, space: WheelSpace): WheelPoint => {
+  if (space === 'hsl') {
+    const { h, s } = hexToHsl(hex);
+    return { hue: h, radius: s / 100 };
+  }
+  const { c, h } = hexToOklch(hex);
+  return { hue: h, radius: Math.min(1, c / WHEEL_MAX_CHROMA) };
+};
+
+// Lightness the wheel is sliced at: HSL 0-100 or OKLCH 0-1
+export const wheelLightness = (hex: string, space: WheelSpace): number =>
+  space === 'hsl' ? hexToHsl(hex).l : hexToOklch(hex).l;
+
+// Color at a wheel position on the slice at the given lightness (out-of-gamut OKLCH colors are gamut mapped)
+export const wheelToColor = ({ hue, radius }: WheelPoint, space: WheelSpace, lightness: number): string =>
+  space === 'hsl'
+    ? hslToHex(normalizeHue(hue), radius * 100, lightness)
+    : oklchToHex({ l: lightness, c: radius * WHEEL_MAX_CHROMA, h: normalizeHue(hue) });
+
+// Wheel position to offsets (0-1) from the top-left corner of its square, and back
+export const wheelToXY = ({ hue, radius }: WheelPoint): { x: number; y: number } => {
+  const angle = (hue * Math.PI) / 180;
+  return { x: 0.5 + (radius * Math.sin(angle)) / 2, y: 0.5 - (radius * Math.cos(angle)) / 2 };
+};
+
+export const xyToWheel = (x: number, y: number): WheelPoint => {
+  const dx = x - 0.5;
+  const dy = y - 0.5;
+  return {
+    hue: normalizeHue((Math.atan2(dx, -dy) * 180) / Math.PI),
+    radius: Math.min(1, Math.hypot(dx, dy) * 2),
+  };
+};
+
+/**
+ * Paints the wheel into a square image as a slice at the given lightness.
+ * OKLCH positions outside sRGB are left transparent, so the slice also shows
+ * the shape of the gamut at that lightness.
+ */
+export const paintWheel = (image: ImageData, space: WheelSpace, lightness: number): void => {
+  const size = image.width;
+  const { data } = image;
+
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      const offset = (py * size + px) * 4;
+      const x = (px + 0.5) / size;
+      const y = (py + 0.5) / size;
+      data[offset + 3] = 0;
+      if (Math.hypot(x - 0.5, y - 0.5) > 0.5) continue;
+
+      const { hue, radius } = xyToWheel(x, y);
+      const rgb = space === 'hsl'
+        ? hexToRgb(hslToHex(hue, radius * 100, lightness))
+        : oklchToRgb({ l: lightness, c: radius * WHEEL_MAX_CHROMA, h: hue });
+      if (!isRgbInGamut(rgb)) continue;
+
+      data[offset] = rgb.r;
+      data[offset + 1] = rgb.g;
+      data[offset + 2] = rgb.b;
+      data[offset + 3] = 255;
+    }
+  }
+};
+
+// Hue of a color in the space a harmony rotates in
+export const harmonyHue = (hex: string, space: HarmonySpace): number => {
+  switch (space) {
+    case 'oklch': return hexToOklch(hex).h;
+    case 'lch': return hexToLch(hex).h;
+    default: return hexToHsl(hex).h;
+  }
+};
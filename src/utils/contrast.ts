@@ -0,0 +1,173 @@
+import { compositeOver, hexAlpha, hexToRgb, hexToOklab, hexToOklch, oklchToHex, withAlpha } from './colorUtils';
+import { rgbToRelativeLuminance, deltaEOK } from './colorSpaces';
+
+export interface WcagResult {
+  ratio: number;
+  aaNormal: boolean;
+  aaLarge: boolean;
+  aaaNormal: boolean;
+  aaaLarge: boolean;
+}
+
+// WCAG 2.x success criteria 1.4.3 / 1.4.6
+export const WCAG_THRESHOLDS = {
+  aaNormal: 4.5,
+  aaLarge: 3,
+  aaaNormal: 7,
+  aaaLarge: 4.5,
+} as const;
+
+export type WcagLevel = keyof typeof WCAG_THRESHOLDS;
+
+// Relative luminance as defined by WCAG 2.x
+export const getRelativeLuminance = (hex: string): number => rgbToRelativeLuminance(hexToRgb(hex));
+
+// Translucent colors are measured as they appear: the background over the backdrop, the foreground over that
+const effectivePair = (foreground: string, background: string, backdrop: string): [string, string] => {
+  const effectiveBackground = compositeOver(background, backdrop);
+  return [compositeOver(foreground, effectiveBackground), effectiveBackground];
+};
+
+/**
+ * WCAG 2.x contrast ratio between a foreground and a background color.
+ * Colors with alpha are composited first, the background over `backdrop`.
+ * @returns A number between 1 (same color) and 21 (black on white)
+ */
+export const getContrastRatio = (foreground: string, background: string, backdrop = '#ffffff'): number => {
+  const [color1, color2] = effectivePair(foreground, background, backdrop);
+  const l1 = getRelativeLuminance(color1) + 0.05;
+  const l2 = getRelativeLuminance(color2) + 0.05;
+  return l1 > l2 ? l1 / l2 : l2 / l1;
+};
+
+export const evaluateWcag = (foreground: string, background: string, backdrop = '#ffffff'): WcagResult => {
+  const ratio = getContrastRatio(foreground, background, backdrop);
+  return {
+    ratio,
+    aaNormal: ratio >= WCAG_THRESHOLDS.aaNormal,
+    aaLarge: ratio >= WCAG_THRESHOLDS.aaLarge,
+    aaaNormal: ratio >= WCAG_THRESHOLDS.aaaNormal,
+    aaaLarge: ratio >= WCAG_THRESHOLDS.aaaLarge,
+  };
+};
+
+// APCA-W3 0.0.98G-4g constants
+const APCA = {
+  mainTrc: 2.4,
+  coefficients: [0.2126729, 0.7151522, 0.072175],
+  normBg: 0.56,
+  normTxt: 0.57,
+  revTxt: 0.62,
+  revBg: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scale: 1.14,
+  loOffset: 0.027,
+  deltaYMin: 0.0005,
+  loClip: 0.1,
+} as const;
+
+const apcaLuminance = (hex: string): number => {
+  const { r, g, b } = hexToRgb(hex);
+  const [cr, cg, cb] = APCA.coefficients;
+  const y = cr * (r / 255) ** APCA.mainTrc + cg * (g / 255) ** APCA.mainTrc + cb * (b / 255) ** APCA.mainTrc;
+  // Soft clamp near black
+  return y > APCA.blkThrs ? y : y + (APCA.blkThrs - y) ** APCA.blkClmp;
+};
+
+/**
+ * APCA lightness contrast (Lc) of text on a background, after compositing like getContrastRatio.
+ * Positive for dark text on light backgrounds, negative for the reverse;
+ * roughly 15 (barely visible) to 106 (black on white).
+ */
+export const getApcaContrast = (text: string, background: string, backdrop = '#ffffff'): number => {
+  const [effectiveText, effectiveBackground] = effectivePair(text, background, backdrop);
+  const yText = apcaLuminance(effectiveText);
+  const yBg = apcaLuminance(effectiveBackground);
+
+  if (Math.abs(yBg - yText) < APCA.deltaYMin) return 0;
+
+  if (yBg > yText) {
+    const sapc = (yBg ** APCA.normBg - yText ** APCA.normTxt) * APCA.scale;
+    return sapc < APCA.loClip ? 0 : (sapc - APCA.loOffset) * 100;
+  }
+
+  const sapc = (yBg ** APCA.revBg - yText ** APCA.revTxt) * APCA.scale;
+  return sapc > -APCA.loClip ? 0 : (sapc + APCA.loOffset) * 100;
+};
+
+// Simplified APCA use cases, by absolute Lc
+export const describeApca = (lc: number): string => {
+  const value = Math.abs(lc);
+  if (value >= 90) return 'Testo esteso';
+  if (value >= 75) return 'Testo corpo';
+  if (value >= 60) return 'Contenuti';
+  if (value >= 45) return 'Titoli';
+  if (value >= 30) return 'Testo minimo';
+  if (value >= 15) return 'Non testuale';
+  return 'Insufficiente';
+};
+
+export interface PassingCandidate {
+  hex: string;
+  // OKLab distance from the original color
+  distance: number;
+}
+
+// Chroma reductions tried when lightness alone is not enough (or not the cheapest)
+const CHROMA_FACTORS = [1, 0.8, 0.6, 0.4, 0.2, 0];
+
+/**
+ * Finds the color closest to `hex` (in OKLab) that satisfies `passes`,
+ * keeping the OKLCH hue and searching lightness for each chroma reduction.
+ * Candidates keep the alpha of `hex`, so they are tested as they will be shown.
+ * @returns null when no lightness/chroma combination passes
+ */
+export const findNearestPassing = (hex: string, passes: (candidate: string) => boolean): PassingCandidate | null => {
+  if (passes(hex)) return { hex, distance: 0 };
+
+  const base = hexToOklch(hex);
+  const original = hexToOklab(hex);
+  const alpha = hexAlpha(hex);
+  let best: PassingCandidate | null = null;
+
+  for (const factor of CHROMA_FACTORS) {
+    const color = { ...base, c: base.c * factor };
+
+    for (const limit of [1, 0]) {
+      let passing = withAlpha(oklchToHex({ ...color, l: limit }), alpha);
+      if (!passes(passing)) continue;
+
+      // Binary search between the failing lightness and the passing extreme
+      let failingL = base.l;
+      let passingL = limit;
+      for (let i = 0; i < 20; i++) {
+        const l = (failingL + passingL) / 2;
+        const candidate = withAlpha(oklchToHex({ ...color, l }), alpha);
+        if (passes(candidate)) {
+          passingL = l;
+          passing = candidate;
+        } else {
+          failingL = l;
+        }
+      }
+
+      const distance = deltaEOK(original, hexToOklab(passing));
+      if (!best || distance < best.distance) best = { hex: passing, distance };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Closest color to `foreground` reaching `minRatio` against `background`
+ * @returns null when neither lightening nor darkening can reach the ratio
+ */
+export const suggestPassingColor = (
+  foreground: string,
+  background: string,
+  minRatio: number = WCAG_THRESHOLDS.aaNormal,
+  backdrop = '#ffffff'
+): string | null =>
+  findNearestPassing(foreground, candidate => getContrastRatio(candidate, background, backdrop) >= minRatio)?.hex ?? null;
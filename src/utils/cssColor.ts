@@ -0,0 +1,256 @@
+import type { CssColor, RGB, XYZ } from '../types';
+import { colorDictionaries } from './colorDictionaries';
+import { rgbToHex } from './colorUtils';
+import {
+  D65_WHITE,
+  gamutMapOklch,
+  labToXyz,
+  lchToLab,
+  linearToXyz,
+  normalizeHue,
+  oklabToOklch,
+  xyzToOklab,
+} from './colorSpaces';
+
+type Matrix3 = readonly [readonly [number, number, number], readonly [number, number, number], readonly [number, number, number]];
+
+const multiply = (m: Matrix3, [a, b, c]: [number, number, number]): XYZ => ({
+  x: m[0][0] * a + m[0][1] * b + m[0][2] * c,
+  y: m[1][0] * a + m[1][1] * b + m[1][2] * c,
+  z: m[2][0] * a + m[2][1] * b + m[2][2] * c,
+});
+
+// CSS lab(), lch() and xyz-d50 are relative to D50; matrices from CSS Color Module Level 4
+const D50_WHITE: XYZ = { x: 0.3457 / 0.3585, y: 1, z: (1 - 0.3457 - 0.3585) / 0.3585 };
+
+const D50_TO_D65: Matrix3 = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+
+const LINEAR_P3_TO_XYZ: Matrix3 = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+
+const LINEAR_REC2020_TO_XYZ: Matrix3 = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+];
+
+const d50ToD65 = ({ x, y, z }: XYZ): XYZ => multiply(D50_TO_D65, [x, y, z]);
+
+// The repo's CIELAB is D65: rescale its output to the D50 white before adapting
+const cssLabToXyz = (l: number, a: number, b: number): XYZ => {
+  const { x, y, z } = labToXyz({ l, a, b });
+  return d50ToD65({ x: (x / D65_WHITE.x) * D50_WHITE.x, y, z: (z / D65_WHITE.z) * D50_WHITE.z });
+};
+
+// sRGB and Display P3 share the sRGB transfer function (extended to negative values)
+const srgbToLinear = (v: number): number => {
+  const abs = Math.abs(v);
+  return abs <= 0.04045 ? v / 12.92 : Math.sign(v) * Math.pow((abs + 0.055) / 1.055, 2.4);
+};
+
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+const rec2020ToLinear = (v: number): number => {
+  const abs = Math.abs(v);
+  return abs < REC2020_BETA * 4.5 ? v / 4.5 : Math.sign(v) * Math.pow((abs + REC2020_ALPHA - 1) / REC2020_ALPHA, 1 / 0.45);
+};
+
+const toLinearRgb = ([r, g, b]: number[]) => ({ r, g, b });
+
+// Predefined spaces of color(): channels (nominally 0-1) to D65 XYZ
+const PREDEFINED_SPACES: Record<string, (channels: [number, number, number]) => XYZ> = {
+  'srgb': (channels) => linearToXyz(toLinearRgb(channels.map(srgbToLinear))),
+  'srgb-linear': (channels) => linearToXyz(toLinearRgb(channels)),
+  'display-p3': (channels) => multiply(LINEAR_P3_TO_XYZ, channels.map(srgbToLinear) as [number, number, number]),
+  'rec2020': (channels) => multiply(LINEAR_REC2020_TO_XYZ, channels.map(rec2020ToLinear) as [number, number, number]),
+  'xyz': ([x, y, z]) => ({ x, y, z }),
+  'xyz-d65': ([x, y, z]) => ({ x, y, z }),
+  'xyz-d50': ([x, y, z]) => d50ToD65({ x, y, z }),
+};
+
+// CSS named colors, keyed by lowercase name; the table lists only the "gray" spelling
+const NAMED_COLORS = new Map(
+  (colorDictionaries.find(dictionary => dictionary.id === 'css')?.entries ?? []).map(({ name, hex }) => [name, hex])
+);
+
+// Names CSS defines as synonyms of an entry the table lists under its other name
+const NAMED_ALIASES: Record<string, string> = { cyan: 'aqua', magenta: 'fuchsia' };
+
+const HEX_DIGITS = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTION = /^([a-z-]+)\(\s*(.*?)\s*\)$/i;
+const COMPONENT = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/i;
+
+interface Component {
+  value: number;
+  unit: string;
+}
+
+const parseComponent = (token: string): Component => {
+  if (token.toLowerCase() === 'none') return { value: 0, unit: '' };
+  const match = COMPONENT.exec(token);
+  if (!match) throw new Error(`Valore non valido: "${token}"`);
+  return { value: parseFloat(match[1]), unit: match[2]?.toLowerCase() ?? '' };
+};
+
+// Number or percentage; `percentScale` is the value 100% stands for
+const numberOrPercent = ({ value, unit }: Component, percentScale: number, token: string): number => {
+  if (unit === '%') return (value / 100) * percentScale;
+  if (unit) throw new Error(`Unità non valida: "${token}"`);
+  return value;
+};
+
+const HUE_UNITS: Record<string, number> = { '': 1, deg: 1, grad: 0.9, rad: 180 / Math.PI, turn: 360 };
+
+const hue = ({ value, unit }: Component, token: string): number => {
+  const scale = HUE_UNITS[unit];
+  if (scale === undefined) throw new Error(`Angolo non valido: "${token}"`);
+  return normalizeHue(value * scale);
+};
+
+const clampUnit = (value: number) => Math.min(1, Math.max(0, value));
+
+// CSS Color 4 hslToRgb: saturation and lightness 0-1, channels 0-255
+const hslToRgb = (h: number, s: number, l: number): RGB => {
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return (l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+  };
+  return { r: channel(0), g: channel(8), b: channel(4) };
+};
+
+/**
+ * Splits the arguments of a color function into its three channels and the
+ * optional alpha, accepting both the legacy comma syntax and the modern
+ * space-separated one with "/ alpha"
+ */
+const splitArguments = (args: string): { channels: string[]; alpha?: string } => {
+  if (args.includes(',')) {
+    const parts = args.split(',').map(part => part.trim());
+    if (parts.length < 3 || parts.length > 4 || parts.some(part => !part)) {
+      throw new Error('Servono tre valori separati da virgole (più l\'alpha facoltativo)');
+    }
+    return { channels: parts.slice(0, 3), alpha: parts[3] };
+  }
+
+  const [main, alpha, ...rest] = args.split('/').map(part => part.trim());
+  const channels = main.split(/\s+/).filter(Boolean);
+  if (channels.length !== 3 || rest.length > 0 || alpha === '') {
+    throw new Error('Servono tre valori separati da spazi, seguiti facoltativamente da "/ alpha"');
+  }
+  return { channels, alpha };
+};
+
+const parseAlpha = (token: string | undefined): number =>
+  token === undefined ? 1 : clampUnit(numberOrPercent(parseComponent(token), 1, token));
+
+const parseHex = (digits: string): CssColor => {
+  const full = digits.length <= 4 ? digits.split('').map(c => c + c).join('') : digits;
+  const [r, g, b, a = 255] = full.match(/../g)?.map(pair => parseInt(pair, 16)) ?? [];
+  return toCssColor({ r, g, b }, a / 255);
+};
+
+const toCssColor = (rgb: RGB, alpha: number): CssColor => {
+  const r = Math.round(Math.min(255, Math.max(0, rgb.r)));
+  const g = Math.round(Math.min(255, Math.max(0, rgb.g)));
+  const b = Math.round(Math.min(255, Math.max(0, rgb.b)));
+  return { r, g, b, alpha, hex: rgbToHex(r, g, b) };
+};
+
+// Colors defined outside sRGB are brought in by reducing OKLCH chroma, as CSS does
+const fromXyz = (xyz: XYZ, alpha: number): CssColor => toCssColor(gamutMapOklch(oklabToOklch(xyzToOklab(xyz))), alpha);
+
+const parseFunction = (name: string, args: string): CssColor => {
+  // color() carries the space name before its channels
+  if (name === 'color') {
+    const [space = '', ...rest] = args.split(/\s+/);
+    const key = space.toLowerCase();
+    if (!Object.hasOwn(PREDEFINED_SPACES, key)) throw new Error(`Spazio colore non supportato in color(): "${space}"`);
+    const { channels, alpha } = splitArguments(rest.join(' '));
+    const values = channels.map(token => numberOrPercent(parseComponent(token), 1, token)) as [number, number, number];
+    return fromXyz(PREDEFINED_SPACES[key](values), parseAlpha(alpha));
+  }
+
+  const { channels, alpha: alphaToken } = splitArguments(args);
+  const components = channels.map(parseComponent);
+  const [c1, c2, c3] = components;
+  const [t1, t2, t3] = channels;
+  const alpha = parseAlpha(alphaToken);
+
+  switch (name) {
+    case 'rgb':
+    case 'rgba':
+      return toCssColor({
+        r: numberOrPercent(c1, 255, t1),
+        g: numberOrPercent(c2, 255, t2),
+        b: numberOrPercent(c3, 255, t3),
+      }, alpha);
+    case 'hsl':
+    case 'hsla':
+      return toCssColor(hslToRgb(hue(c1, t1), clampUnit(numberOrPercent(c2, 100, t2) / 100), clampUnit(numberOrPercent(c3, 100, t3) / 100)), alpha);
+    case 'hwb': {
+      const white = clampUnit(numberOrPercent(c2, 100, t2) / 100);
+      const black = clampUnit(numberOrPercent(c3, 100, t3) / 100);
+      if (white + black >= 1) {
+        const gray = (white / (white + black)) * 255;
+        return toCssColor({ r: gray, g: gray, b: gray }, alpha);
+      }
+      // Pure hue mixed with white and black
+      const pure = hslToRgb(hue(c1, t1), 1, 0.5);
+      const mix = (v: number) => v * (1 - white - black) + white * 255;
+      return toCssColor({ r: mix(pure.r), g: mix(pure.g), b: mix(pure.b) }, alpha);
+    }
+    case 'lab':
+      return fromXyz(cssLabToXyz(numberOrPercent(c1, 100, t1), numberOrPercent(c2, 125, t2), numberOrPercent(c3, 125, t3)), alpha);
+    case 'lch': {
+      const { l, a, b } = lchToLab({ l: numberOrPercent(c1, 100, t1), c: Math.max(0, numberOrPercent(c2, 150, t2)), h: hue(c3, t3) });
+      return fromXyz(cssLabToXyz(l, a, b), alpha);
+    }
+    case 'oklab':
+      return toCssColor(gamutMapOklch(oklabToOklch({
+        l: numberOrPercent(c1, 1, t1),
+        a: numberOrPercent(c2, 0.4, t2),
+        b: numberOrPercent(c3, 0.4, t3),
+      })), alpha);
+    case 'oklch':
+      return toCssColor(gamutMapOklch({
+        l: numberOrPercent(c1, 1, t1),
+        c: Math.max(0, numberOrPercent(c2, 0.4, t2)),
+        h: hue(c3, t3),
+      }), alpha);
+    default:
+      throw new Error(`Funzione colore sconosciuta: "${name}()"`);
+  }
+};
+
+/**
+ * Parses any CSS color: hex with 3, 4, 6 or 8 digits, rgb(), hsl(), hwb(),
+ * lab(), lch(), oklab(), oklch(), color() and named colors. The result is
+ * always an sRGB color (gamut mapped when needed) with its alpha; invalid
+ * input throws an Error whose message can be shown to the user.
+ */
+export const parseCssColor = (input: string): CssColor => {
+  const text = input.trim();
+  if (!text) throw new Error('Inserisci un colore');
+
+  const hex = HEX_DIGITS.exec(text);
+  if (hex) return parseHex(hex[1]);
+  if (text.startsWith('#')) throw new Error('Un colore esadecimale ha 3, 4, 6 o 8 cifre');
+
+  const fn = FUNCTION.exec(text);
+  if (fn) return parseFunction(fn[1].toLowerCase(), fn[2]);
+
+  const name = text.toLowerCase();
+  if (name === 'transparent') return toCssColor({ r: 0, g: 0, b: 0 }, 0);
+  const named = NAMED_COLORS.get(NAMED_ALIASES[name] ?? name) ?? NAMED_COLORS.get(name.replace('grey', 'gray'));
+  if (named) return parseHex(named.slice(1));
+
+  throw new Error(`Colore non riconosciuto: "${text}"`);
+};
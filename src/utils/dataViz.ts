@@ -0,0 +1,147 @@
+import type { Lab, OKLCH } from '../types';
+import { hexToLab, hexToOklab, hexToOklch, oklchToHex } from './colorUtils';
+import { deltaE2000, deltaEOK, normalizeHue } from './colorSpaces';
+import { simulateDeficiency, type VisionDeficiency } from './colorVision';
+
+export type DataVizKind = 'sequential' | 'diverging' | 'categorical';
+
+// Number of colors a chart palette can have
+export const DATA_VIZ_COUNT = { min: 6, max: 12, default: 9 } as const;
+
+// Deficiencies a categorical set must stay distinguishable under
+export const CVD_CHECKS: VisionDeficiency[] = ['protanopia', 'deuteranopia', 'tritanopia'];
+
+// Resolution used to measure the length of a ramp before spacing its steps
+const RAMP_SAMPLES = 64;
+
+// OKLCH lightness at the light and dark ends of the ramps
+const RAMP_LIGHT = 0.96;
+const RAMP_DARK = 0.28;
+const DIVERGING_DARK = 0.42;
+
+// Weakly colored bases still get some chroma to work with; gray ones give a gray sequential ramp
+const MIN_RAMP_CHROMA = 0.1;
+const ACHROMATIC_CHROMA = 0.02;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Colors at the given fractions (0-1) of a ramp's perceptual length: the path
+ * is sampled, measured in ΔE OK and every fraction is mapped back to the point
+ * at that share of the total distance, so consecutive steps are equally far apart
+ */
+const uniformRamp = (path: (t: number) => OKLCH, fractions: number[]): string[] => {
+  const samples = Array.from({ length: RAMP_SAMPLES + 1 }, (_, i) => oklchToHex(path(i / RAMP_SAMPLES)));
+  const lengths = [0];
+  for (let i = 1; i < samples.length; i++) {
+    lengths.push(lengths[i - 1] + deltaEOK(hexToOklab(samples[i - 1]), hexToOklab(samples[i])));
+  }
+  const total = lengths[lengths.length - 1];
+
+  return fractions.map(fraction => {
+    const target = fraction * total;
+    const index = Math.max(1, lengths.findIndex(length => length >= target));
+    const span = lengths[index] - lengths[index - 1];
+    const local = span === 0 ? 0 : (target - lengths[index - 1]) / span;
+    return oklchToHex(path((index - 1 + local) / RAMP_SAMPLES));
+  });
+};
+
+const evenFractions = (count: number): number[] =>
+  Array.from({ length: count }, (_, i) => (count === 1 ? 0 : i / (count - 1)));
+
+// Chroma rises towards the middle of the ramp: pale tints and deep shades both carry less of it
+const rampChroma = (peak: number, t: number) => peak * Math.sin(Math.PI * (0.1 + 0.8 * t));
+
+/**
+ * Single-hue sequential ramp from a light tint to a deep shade of the base,
+ * with steps equally spaced in perceived difference
+ */
+export const generateSequential = (baseHex: string, count: number = DATA_VIZ_COUNT.default): string[] => {
+  const base = hexToOklch(baseHex);
+  const peak = base.c < ACHROMATIC_CHROMA ? 0 : Math.max(base.c, MIN_RAMP_CHROMA);
+  return uniformRamp(
+    t => ({ l: lerp(RAMP_LIGHT, RAMP_DARK, t), c: rampChroma(peak, t), h: base.h }),
+    evenFractions(count)
+  );
+};
+
+/**
+ * Diverging ramp: the base hue on one side, its complement on the other and a
+ * neutral light midpoint. Both arms are spaced uniformly on their own, so the
+ * midpoint stays in the middle even when one hue covers more distance.
+ */
+export const generateDiverging = (baseHex: string, count: number = DATA_VIZ_COUNT.default): string[] => {
+  const base = hexToOklch(baseHex);
+  const peak = Math.max(base.c, MIN_RAMP_CHROMA);
+  const arm = (hue: number) => (t: number): OKLCH => ({ l: lerp(RAMP_LIGHT, DIVERGING_DARK, t), c: peak * t, h: hue });
+
+  // Posizioni in [-1, 1]: negative sul lato della base, positive sul complementare
+  const positions = evenFractions(count).map(f => f * 2 - 1);
+  const left = uniformRamp(arm(base.h), positions.map(p => Math.max(0, -p)));
+  const right = uniformRamp(arm(normalizeHue(base.h + 180)), positions.map(p => Math.max(0, p)));
+  return positions.map((p, i) => (p < 0 ? left[i] : right[i]));
+};
+
+// Candidate colors for categorical sets: mid lightness, clearly chromatic, every 10° of hue
+const CATEGORICAL_LIGHTNESS = [0.5, 0.62, 0.74, 0.84];
+const CATEGORICAL_CHROMA = [0.1, 0.16];
+
+interface Candidate {
+  hex: string;
+  // Lab under normal vision followed by each CVD_CHECKS simulation
+  views: Lab[];
+}
+
+const toCandidate = (hex: string): Candidate => ({
+  hex,
+  views: [hexToLab(hex), ...CVD_CHECKS.map(deficiency => hexToLab(simulateDeficiency(hex, deficiency)))],
+});
+
+// Worst-case difference of two colors across normal and deficient vision
+const worstDeltaE = (a: Candidate, b: Candidate): number =>
+  Math.min(...a.views.map((view, i) => deltaE2000(view, b.views[i])));
+
+/**
+ * Categorical set anchored on the base color. Each next color is the candidate
+ * whose smallest ΔE2000 to the colors already picked is the largest, where the
+ * ΔE of a pair is the worst one under normal vision, protanopia, deuteranopia
+ * and tritanopia (greedy farthest-point selection).
+ */
+export const generateCategorical = (baseHex: string, count: number = DATA_VIZ_COUNT.default): string[] => {
+  const hexes = new Set<string>();
+  for (let h = 0; h < 360; h += 10) {
+    for (const l of CATEGORICAL_LIGHTNESS) {
+      for (const c of CATEGORICAL_CHROMA) hexes.add(oklchToHex({ l, c, h }));
+    }
+  }
+  const pool = [...hexes].map(toCandidate);
+  const picked = [toCandidate(baseHex)];
+  const distances = pool.map(candidate => worstDeltaE(candidate, picked[0]));
+
+  while (picked.length < count && pool.length > 0) {
+    let best = 0;
+    for (let i = 1; i < pool.length; i++) {
+      if (distances[i] > distances[best]) best = i;
+    }
+    const [next] = pool.splice(best, 1);
+    distances.splice(best, 1);
+    picked.push(next);
+    pool.forEach((candidate, i) => {
+      distances[i] = Math.min(distances[i], worstDeltaE(candidate, next));
+    });
+  }
+  return picked.map(candidate => candidate.hex);
+};
+
+/**
+ * Smallest ΔE2000 between any two colors of a set, as seen with the given deficiency
+ */
+export const minPairwiseDeltaE = (colors: string[], deficiency: VisionDeficiency = 'normal'): number => {
+  const labs = colors.map(hex => hexToLab(deficiency === 'normal' ? hex : simulateDeficiency(hex, deficiency)));
+  let min = Infinity;
+  for (let i = 0; i < labs.length; i++) {
+    for (let j = i + 1; j < labs.length; j++) min = Math.min(min, deltaE2000(labs[i], labs[j]));
+  }
+  return min;
+};
@@ -0,0 +1,184 @@
+import type { ColorPalette } from '../types';
+import { findNearestColorName, formatColorName } from './colorNames';
+import { resolveSemanticRoles, semanticRolesFor } from './semanticRoles';
+import { themeRolesOf } from './themePairs';
+
+export type ExportFormat = 'tailwind' | 'css' | 'scss' | 'less' | 'dtcg' | 'styleDictionary' | 'json';
+
+export interface PaletteExporter {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (palette: ColorPalette) => string;
+}
+
+export interface PaletteToken {
+  // 'role' tokens are the base and semantic roles (the light theme when themes are paired),
+  // 'dark' tokens the paired dark theme, 'palette' tokens the numbered swatches
+  group: 'role' | 'dark' | 'palette';
+  name: string;
+  value: string;
+  // Nearest CSS named color, written next to the value as a comment or description
+  colorName: string;
+}
+
+// surfaceVariant -> surface-variant, as CSS custom properties are usually written
+const kebabCase = (name: string): string => name.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+
+// Tailwind config keys need quotes once they contain a dash
+const objectKey = (name: string): string => /^\w+$/.test(name) ? name : `'${name}'`;
+
+const colorNameOf = (hex: string): string => formatColorName(findNearestColorName(hex));
+
+// Helper: Flatten a palette into the tokens every serializer works from
+export const collectTokens = (palette: ColorPalette): PaletteToken[] => {
+  const { themes } = palette;
+  const roleTokens = (group: 'role' | 'dark', roles: Record<string, string>) =>
+    Object.entries(roles).map(([role, value]) => ({ group, name: kebabCase(role), value }));
+
+  return [
+    ...roleTokens('role', {
+      ...themeRolesOf(themes?.light ?? palette),
+      ...(themes ? semanticRolesFor(palette, 'light') : resolveSemanticRoles(palette)),
+    }),
+    ...(themes ? roleTokens('dark', { ...themes.dark, ...semanticRolesFor(palette, 'dark') }) : []),
+    ...palette.colors.map((color, i) => ({ group: 'palette' as const, name: String(i + 1), value: color })),
+  ].map(token => ({ ...token, colorName: colorNameOf(token.value) }));
+};
+
+// Same naming as the variables ThemeContext writes on :root
+const variableName = (token: PaletteToken): string => {
+  switch (token.group) {
+    case 'role': return `color-${token.name}`;
+    case 'dark': return `color-dark-${token.name}`;
+    default: return `color-palette-${token.name}`;
+  }
+};
+
+export const slugify = (name: string): string =>
+  name.trim().replace(/\s+/g, '_').toLowerCase() || 'palette';
+
+const header = (palette: ColorPalette, comment: (line: string) => string): string =>
+  comment(`${palette.name} — generated by Spectra`);
+
+const toTailwind = (palette: ColorPalette): string => {
+  const tokens = collectTokens(palette);
+  const roles = tokens.filter(t => t.group === 'role')
+    .map(t => `        ${objectKey(t.name)}: '${t.value}', // ${t.colorName}`);
+  const dark = tokens.filter(t => t.group === 'dark')
+    .map(t => `          ${objectKey(t.name)}: '${t.value}', // ${t.colorName}`);
+  const swatches = tokens.filter(t => t.group === 'palette')
+    .map(t => `          ${t.name}: '${t.value}', // ${t.colorName}`);
+
+  return [
+    header(palette, line => `// ${line}`),
+    `/** @type {import('tailwindcss').Config} */`,
+    // ESM, as current Tailwind configs and "type": "module" projects expect
+    'export default {',
+    '  theme: {',
+    '    extend: {',
+    '      colors: {',
+    ...roles,
+    ...(dark.length > 0 ? ['        dark: {', ...dark, '        },'] : []),
+    '        palette: {',
+    ...swatches,
+    '        },',
+    '      },',
+    '    },',
+    '  },',
+    '};',
+    '',
+  ].join('\n');
+};
+
+const toCss = (palette: ColorPalette): string => {
+  const tokens = collectTokens(palette);
+  const declaration = (t: PaletteToken, name = variableName(t)) => `  --${name}: ${t.value}; /* ${t.colorName} */`;
+  const dark = tokens.filter(t => t.group === 'dark');
+
+  return [
+    header(palette, line => `/* ${line} */`),
+    ':root {',
+    ...tokens.filter(t => t.group !== 'dark').map(t => declaration(t)),
+    '}',
+    // The dark theme redefines the role variables under the same class ThemeContext toggles
+    ...(dark.length > 0 ? ['', '.dark {', ...dark.map(t => declaration(t, `color-${t.name}`)), '}'] : []),
+    '',
+  ].join('\n');
+};
+
+const toScss = (palette: ColorPalette): string => [
+  header(palette, line => `// ${line}`),
+  ...collectTokens(palette).map(t => `$${variableName(t)}: ${t.value}; // ${t.colorName}`),
+  '',
+].join('\n');
+
+const toLess = (palette: ColorPalette): string => [
+  header(palette, line => `// ${line}`),
+  ...collectTokens(palette).map(t => `@${variableName(t)}: ${t.value}; // ${t.colorName}`),
+  '',
+].join('\n');
+
+// W3C Design Tokens Community Group format
+const toDesignTokens = (palette: ColorPalette): string => {
+  const token = (t: PaletteToken) => ({ $type: 'color', $value: t.value, $description: t.colorName });
+  const tokens = collectTokens(palette);
+  const dark = tokens.filter(t => t.group === 'dark');
+
+  return JSON.stringify({
+    $description: palette.name,
+    color: {
+      ...Object.fromEntries(tokens.filter(t => t.group === 'role').map(t => [t.name, token(t)])),
+      ...(dark.length > 0 ? { dark: Object.fromEntries(dark.map(t => [t.name, token(t)])) } : {}),
+      palette: Object.fromEntries(tokens.filter(t => t.group === 'palette').map(t => [t.name, token(t)])),
+    },
+  }, null, 2);
+};
+
+const toStyleDictionary = (palette: ColorPalette): string => {
+  const token = (t: PaletteToken) => ({ value: t.value, type: 'color', comment: t.colorName });
+  const tokens = collectTokens(palette);
+  const dark = tokens.filter(t => t.group === 'dark');
+
+  return JSON.stringify({
+    color: {
+      ...Object.fromEntries(tokens.filter(t => t.group === 'role').map(t => [t.name, token(t)])),
+      ...(dark.length > 0 ? { dark: Object.fromEntries(dark.map(t => [t.name, token(t)])) } : {}),
+      palette: Object.fromEntries(tokens.filter(t => t.group === 'palette').map(t => [t.name, token(t)])),
+    },
+  }, null, 2);
+};
+
+// The app's own format, read back by the JSON importer
+const toJson = (palette: ColorPalette): string => JSON.stringify({
+  name: palette.name,
+  colors: palette.colors,
+  primary: palette.primary,
+  secondary: palette.secondary,
+  accent: palette.accent,
+  background: palette.background,
+  text: palette.text,
+  themes: palette.themes,
+  roleAssignments: palette.roleAssignments,
+  harmony: palette.harmony,
+  semanticRoles: resolveSemanticRoles(palette),
+  colorNames: palette.colors.map(colorNameOf),
+  exportedAt: new Date().toISOString(),
+}, null, 2);
+
+export const exporters: PaletteExporter[] = [
+  { id: 'tailwind', label: 'Tailwind', extension: 'tailwind.config.js', mimeType: 'text/javascript', serialize: toTailwind },
+  { id: 'css', label: 'CSS Variables', extension: 'css', mimeType: 'text/css', serialize: toCss },
+  { id: 'scss', label: 'SCSS', extension: 'scss', mimeType: 'text/x-scss', serialize: toScss },
+  { id: 'less', label: 'Less', extension: 'less', mimeType: 'text/x-less', serialize: toLess },
+  { id: 'dtcg', label: 'Design Tokens', extension: 'tokens.json', mimeType: 'application/json', serialize: toDesignTokens },
+  { id: 'styleDictionary', label: 'Style Dictionary', extension: 'style-dictionary.json', mimeType: 'application/json', serialize: toStyleDictionary },
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json', serialize: toJson },
+];
+
+export const getExporter = (format: ExportFormat): PaletteExporter =>
+  exporters.find(e => e.id === format) ?? exporters[0];
+
+export const getExportFileName = (palette: ColorPalette, exporter: PaletteExporter): string =>
+  `${slugify(palette.name)}_palette.${exporter.extension}`;
@@ -0,0 +1,217 @@
+import type { Gradient, GradientSpace, GradientStop, GradientType, HueInterpolation, OKLCH } from '../types';
+import { hexAlpha, hexToOklab, hexToOklch, hexToRgb, oklchToHex, rgbToHex, withAlpha } from './colorUtils';
+import { normalizeHue, oklabToOklch } from './colorSpaces';
+
+export const gradientTypes: { value: GradientType; label: string }[] = [
+  { value: 'linear', label: 'Lineare' },
+  { value: 'radial', label: 'Radiale' },
+  { value: 'conic', label: 'Conico' },
+];
+
+export const gradientSpaces: { value: GradientSpace; label: string }[] = [
+  { value: 'srgb', label: 'sRGB' },
+  { value: 'oklab', label: 'OKLab' },
+  { value: 'oklch', label: 'OKLCH' },
+];
+
+export const hueInterpolations: { value: HueInterpolation; label: string }[] = [
+  { value: 'shorter', label: 'Tinta breve' },
+  { value: 'longer', label: 'Tinta lunga' },
+];
+
+// Below this OKLCH chroma the hue is powerless and the other color's hue is used
+const ACHROMATIC_CHROMA = 0.005;
+
+// Fallbacks and SVG stops are sampled this often (in % of the gradient) for perceptual spaces
+const FALLBACK_STEP = 5;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Hue difference to travel from `from` to `to`, following CSS Color 4:
+ * "shorter" takes the arc under 180°, "longer" the complementary one
+ */
+const hueDelta = (from: number, to: number, hue: HueInterpolation): number => {
+  const shorter = ((to - from + 540) % 360) - 180;
+  if (hue === 'shorter') return shorter;
+  return shorter > 0 ? shorter - 360 : shorter + 360;
+};
+
+/**
+ * Color at `t` (0-1) between two hex colors in the given space. Like CSS,
+ * translucent colors are interpolated premultiplied by their alpha (hue
+ * excluded), so a transparent stop does not pull its color into the blend
+ */
+export const interpolateColor = (
+  from: string,
+  to: string,
+  t: number,
+  space: GradientSpace,
+  hue: HueInterpolation = 'shorter'
+): string => {
+  const fromAlpha = hexAlpha(from);
+  const toAlpha = hexAlpha(to);
+  const alpha = lerp(fromAlpha, toAlpha, t);
+  const mix = (a: number, b: number) => alpha === 0 ? lerp(a, b, t) : lerp(a * fromAlpha, b * toAlpha, t) / alpha;
+
+  const color = (() => {
+    switch (space) {
+      case 'srgb': {
+        const a = hexToRgb(from);
+        const b = hexToRgb(to);
+        return rgbToHex(Math.round(mix(a.r, b.r)), Math.round(mix(a.g, b.g)), Math.round(mix(a.b, b.b)));
+      }
+      case 'oklab': {
+        const a = hexToOklab(from);
+        const b = hexToOklab(to);
+        return oklchToHex(oklabToOklch({ l: mix(a.l, b.l), a: mix(a.a, b.a), b: mix(a.b, b.b) }));
+      }
+      case 'oklch': {
+        const a = hexToOklch(from);
+        const b = hexToOklch(to);
+        const fromHue = a.c < ACHROMATIC_CHROMA ? b.h : a.h;
+        const toHue = b.c < ACHROMATIC_CHROMA ? a.h : b.h;
+        const oklch: OKLCH = {
+          l: mix(a.l, b.l),
+          c: mix(a.c, b.c),
+          h: normalizeHue(fromHue + hueDelta(fromHue, toHue, hue) * t),
+        };
+        return oklchToHex(oklch);
+      }
+    }
+  })();
+  return withAlpha(color, alpha);
+};
+
+export const sortStops = (stops: GradientStop[]): GradientStop[] =>
+  [...stops].sort((a, b) => a.position - b.position);
+
+/**
+ * Color of the gradient at `position` (0-100); before the first and after the
+ * last stop the gradient keeps the stop color, as CSS does
+ */
+export const sampleGradient = (gradient: Gradient, position: number): string => {
+  const stops = sortStops(gradient.stops);
+  if (stops.length === 0) return '#000000';
+  if (position <= stops[0].position) return stops[0].color;
+
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1];
+    const to = stops[i];
+    if (position <= to.position) {
+      const span = to.position - from.position;
+      const t = span === 0 ? 1 : (position - from.position) / span;
+      return interpolateColor(from.color, to.color, t, gradient.space, gradient.hue);
+    }
+  }
+  return stops[stops.length - 1].color;
+};
+
+// `count` evenly spaced colors from the first to the last position of the gradient
+export const sampleGradientSteps = (gradient: Gradient, count: number): string[] => {
+  if (count <= 1) return [sampleGradient(gradient, 0)];
+  return Array.from({ length: count }, (_, i) => sampleGradient(gradient, (i / (count - 1)) * 100));
+};
+
+/**
+ * Stops that reproduce the gradient when a renderer interpolates them in sRGB:
+ * the original stops plus samples every FALLBACK_STEP percent in between.
+ * Translucent sRGB gradients are sampled too, since SVG renderers do not
+ * premultiply alpha
+ */
+export const sampledStops = (gradient: Gradient): { color: string; position: number }[] => {
+  const stops = sortStops(gradient.stops);
+  const translucent = stops.some(stop => hexAlpha(stop.color) < 1);
+  if ((gradient.space === 'srgb' && !translucent) || stops.length < 2) return stops.map(({ color, position }) => ({ color, position }));
+
+  const positions = new Set(stops.map(stop => stop.position));
+  for (let position = 0; position <= 100; position += FALLBACK_STEP) {
+    if (position > stops[0].position && position < stops[stops.length - 1].position) positions.add(position);
+  }
+  return [...positions]
+    .sort((a, b) => a - b)
+    .map(position => ({ color: sampleGradient(gradient, position), position }));
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const cssStops = (stops: { color: string; position: number }[]): string =>
+  stops.map(({ color, position }) => `${color.toLowerCase()} ${round(position)}%`).join(', ');
+
+// "in oklch longer hue" and friends; sRGB is what legacy colors interpolate in anyway
+const interpolationClause = ({ space, hue }: Gradient): string => {
+  if (space === 'srgb') return '';
+  return space === 'oklch' ? `in oklch ${hue} hue` : `in ${space}`;
+};
+
+// CSS gradient function for a list of stops, with an optional interpolation clause
+const cssGradient = (gradient: Gradient, stops: string, clause: string): string => {
+  const prefix = (() => {
+    switch (gradient.type) {
+      case 'linear': return `${round(gradient.angle)}deg`;
+      case 'radial': return 'circle';
+      case 'conic': return `from ${round(gradient.angle)}deg`;
+    }
+  })();
+  const head = [prefix, clause].filter(Boolean).join(' ');
+  return `${gradient.type}-gradient(${head}, ${stops})`;
+};
+
+// Gradient as rendered by the app: pre-sampled stops, so every browser shows the same colors
+export const gradientToCssValue = (gradient: Gradient): string =>
+  cssGradient(gradient, cssStops(sampledStops(gradient)), '');
+
+/**
+ * CSS declarations for the gradient: a solid color, a pre-sampled sRGB
+ * gradient for browsers without interpolation spaces and, last, the native
+ * `in oklab/oklch` syntax that supporting browsers pick up
+ */
+export const gradientToCss = (gradient: Gradient, selector = '.gradient'): string => {
+  const stops = sortStops(gradient.stops);
+  const solid = sampleGradient(gradient, 50);
+  const lines = [`  background: ${solid.toLowerCase()};`, `  background: ${gradientToCssValue(gradient)};`];
+  if (gradient.space !== 'srgb') {
+    lines.push(`  background: ${cssGradient(gradient, cssStops(stops), interpolationClause(gradient))};`);
+  }
+  return `${selector} {\n${lines.join('\n')}\n}\n`;
+};
+
+// Gradient line of a CSS angle (0deg = to top, clockwise) in objectBoundingBox units
+const linearCoordinates = (angle: number) => {
+  const rad = (angle * Math.PI) / 180;
+  const dx = Math.sin(rad) / 2;
+  const dy = -Math.cos(rad) / 2;
+  return { x1: round(0.5 - dx), y1: round(0.5 - dy), x2: round(0.5 + dx), y2: round(0.5 + dy) };
+};
+
+/**
+ * Standalone SVG filled with the gradient. SVG interpolates in sRGB only, so
+ * perceptual gradients are written with sampled stops; conic gradients do not
+ * exist in SVG and are exported along their start angle as a linear gradient.
+ */
+export const gradientToSvg = (gradient: Gradient, width = 400, height = 200): string => {
+  // stop-color takes the opaque color, alpha goes in stop-opacity
+  const stops = sampledStops(gradient)
+    .map(({ color, position }) => {
+      const alpha = hexAlpha(color);
+      const opacity = alpha < 1 ? ` stop-opacity="${round(alpha)}"` : '';
+      return `      <stop offset="${round(position)}%" stop-color="${withAlpha(color, 1).toLowerCase()}"${opacity} />`;
+    })
+    .join('\n');
+  const definition = gradient.type === 'radial'
+    ? `    <radialGradient id="gradient" cx="0.5" cy="0.5" r="0.5">\n${stops}\n    </radialGradient>`
+    : (() => {
+      const { x1, y1, x2, y2 } = linearCoordinates(gradient.angle);
+      return `    <linearGradient id="gradient" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">\n${stops}\n    </linearGradient>`;
+    })();
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    '  <defs>',
+    definition,
+    '  </defs>',
+    `  <rect width="${width}" height="${height}" fill="url(#gradient)" />`,
+    '</svg>',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,119 @@
+import type { HarmonyParams, HueHarmony } from '../types';
+import { harmonyOffsets } from './colorUtils';
+import { normalizeHue } from './colorSpaces';
+
+export type HarmonyScheme = 'Analogous' | 'Complementary' | 'Triadic' | 'SplitComplementary' | 'Tetradic' | 'Monochromatic';
+
+type NumericParam = Exclude<keyof HarmonyParams, 'includeBase'>;
+
+// One control of the parameter panel; the panel renders them in order
+export type HarmonyParamField =
+  | { key: NumericParam; kind: 'range'; label: string; min: number; max: number; step: number; unit?: string }
+  | { key: 'includeBase'; kind: 'toggle'; label: string };
+
+export interface HarmonyParamSchema {
+  fields: HarmonyParamField[];
+  defaults: Partial<HarmonyParams>;
+}
+
+const jitterFields: HarmonyParamField[] = [
+  { key: 'lightnessJitter', kind: 'range', label: 'Variazione luminosità', min: 0, max: 20, step: 1, unit: '%' },
+  { key: 'saturationJitter', kind: 'range', label: 'Variazione saturazione', min: 0, max: 20, step: 1, unit: '%' },
+];
+
+const includeBaseField: HarmonyParamField = { key: 'includeBase', kind: 'toggle', label: 'Includi il colore base' };
+
+const spreadField = (min: number, max: number, label = 'Ampiezza angolo'): HarmonyParamField =>
+  ({ key: 'spread', kind: 'range', label, min, max, step: 1, unit: '°' });
+
+const noJitter = { lightnessJitter: 0, saturationJitter: 0, includeBase: true };
+
+/**
+ * Parameters each harmony exposes. Defaults reproduce the fixed values the
+ * generators used before they became configurable.
+ */
+export const harmonyParamSchemas: Record<HarmonyScheme, HarmonyParamSchema> = {
+  Analogous: {
+    fields: [
+      spreadField(5, 60),
+      { key: 'count', kind: 'range', label: 'Numero di colori', min: 2, max: 9, step: 1 },
+      ...jitterFields,
+      includeBaseField,
+    ],
+    defaults: { spread: 30, count: 5, ...noJitter },
+  },
+  Complementary: {
+    fields: [...jitterFields, includeBaseField],
+    defaults: noJitter,
+  },
+  Triadic: {
+    fields: [spreadField(90, 150), ...jitterFields, includeBaseField],
+    defaults: { spread: 120, ...noJitter },
+  },
+  SplitComplementary: {
+    fields: [spreadField(5, 60, 'Distanza dal complementare'), ...jitterFields, includeBaseField],
+    defaults: { spread: 30, ...noJitter },
+  },
+  Tetradic: {
+    fields: [spreadField(30, 90), ...jitterFields, includeBaseField],
+    defaults: { spread: 90, ...noJitter },
+  },
+  Monochromatic: {
+    fields: [
+      { key: 'count', kind: 'range', label: 'Numero di colori', min: 3, max: 9, step: 1 },
+      { key: 'minLightness', kind: 'range', label: 'Luminosità minima', min: 5, max: 50, step: 1, unit: '%' },
+      { key: 'maxLightness', kind: 'range', label: 'Luminosità massima', min: 50, max: 95, step: 1, unit: '%' },
+      ...jitterFields,
+      includeBaseField,
+    ],
+    defaults: { count: 5, minLightness: 30, maxLightness: 90, ...noJitter },
+  },
+};
+
+export const isHarmonyScheme = (scheme: string): scheme is HarmonyScheme =>
+  Object.hasOwn(harmonyParamSchemas, scheme);
+
+// Harmonies whose colors are rotations of the base hue, i.e. all but monochromatic
+export const isHueHarmony = (scheme: string): scheme is HueHarmony =>
+  isHarmonyScheme(scheme) && scheme !== 'Monochromatic';
+
+/**
+ * Parameters of a scheme: saved values over the defaults, limited to the
+ * scheme's own fields and clamped to their ranges so stale or hand-edited
+ * values stay valid
+ */
+export const resolveHarmonyParams = (scheme: HarmonyScheme, params: Partial<HarmonyParams> = {}): Partial<HarmonyParams> => {
+  const { fields, defaults } = harmonyParamSchemas[scheme];
+  const resolved: Partial<HarmonyParams> = { ...defaults };
+
+  for (const field of fields) {
+    const value = params[field.key];
+    if (field.kind === 'toggle') {
+      if (typeof value === 'boolean') resolved.includeBase = value;
+    } else if (typeof value === 'number' && Number.isFinite(value)) {
+      resolved[field.key] = Math.min(field.max, Math.max(field.min, value));
+    }
+  }
+  return resolved;
+};
+
+/**
+ * Spread that moves the color at `index` of a hue-rotation harmony to the given
+ * hue offset from the base. Offsets are linear in the spread, so the slope is
+ * read off two evaluations; colors that do not depend on it give null.
+ */
+export const spreadForOffset = (
+  scheme: HueHarmony,
+  params: Partial<HarmonyParams>,
+  index: number,
+  offset: number
+): number | null => {
+  const at = (spread: number) => harmonyOffsets(scheme, { ...params, spread })[index];
+  const start = at(0);
+  const slope = at(1) - start;
+  if (!slope || start === undefined) return null;
+
+  // Shortest way round from the constant part of the offset to the target
+  const delta = normalizeHue(offset - start);
+  return Math.round((delta > 180 ? delta - 360 : delta) / slope);
+};
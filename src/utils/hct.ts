@@ -0,0 +1,170 @@
+import type { HCT, LinearRGB, XYZ } from '../types';
+import { hexToRgb } from './colorUtils';
+import { D65_WHITE, labToXyz, linearToRgb, normalizeHue, rgbToXyz, xyzToLab, xyzToLinear } from './colorSpaces';
+
+// CAM16 works on XYZ scaled to Y = 100
+const WHITE: readonly [number, number, number] = [D65_WHITE.x * 100, D65_WHITE.y * 100, D65_WHITE.z * 100];
+
+const XYZ_TO_CAM16_RGB = [
+  [0.401288, 0.650173, -0.051461],
+  [-0.250268, 1.204414, 0.045854],
+  [-0.002079, 0.048952, 0.953127],
+] as const;
+
+const CAM16_RGB_TO_XYZ = [
+  [1.8620678, -1.0112547, 0.14918678],
+  [0.38752654, 0.62144744, -0.00897398],
+  [-0.0158415, -0.03412294, 1.0499644],
+] as const;
+
+const toCam16Rgb = ([x, y, z]: readonly number[]): [number, number, number] =>
+  XYZ_TO_CAM16_RGB.map(row => row[0] * x + row[1] * y + row[2] * z) as [number, number, number];
+
+// Y (0-100) of a CIELAB lightness
+const yFromLstar = (lstar: number): number => labToXyz({ l: lstar, a: 0, b: 0 }).y * 100;
+
+/**
+ * Viewing conditions used by Material: sRGB white, an average surround and a
+ * mid-gray background (L* 50) under ~11.7 cd/m² of adapting luminance
+ */
+const VIEWING = (() => {
+  const adaptingLuminance = (200 / Math.PI) * yFromLstar(50) / 100;
+  const surround = 2;
+  const f = 0.8 + surround / 10;
+  const c = 0.59 + (0.69 - 0.59) * (f - 0.9) * 10;
+  const d = Math.min(1, Math.max(0, f * (1 - (1 / 3.6) * Math.exp((-adaptingLuminance - 42) / 92))));
+  const whiteRgb = toCam16Rgb(WHITE);
+  const rgbD = whiteRgb.map(v => d * (100 / v) + 1 - d);
+  const k = 1 / (5 * adaptingLuminance + 1);
+  const k4 = k ** 4;
+  const fl = k4 * adaptingLuminance + 0.1 * (1 - k4) ** 2 * Math.cbrt(5 * adaptingLuminance);
+  const n = yFromLstar(50) / WHITE[1];
+  const z = 1.48 + Math.sqrt(n);
+  const nbb = 0.725 / n ** 0.2;
+  const [rA, gA, bA] = whiteRgb.map((v, i) => {
+    const factor = (fl * rgbD[i] * v / 100) ** 0.42;
+    return 400 * factor / (factor + 27.13);
+  });
+  return { c, nc: f, rgbD, fl, n, z, nbb, ncb: nbb, aw: (2 * rA + gA + 0.05 * bA) * nbb };
+})();
+
+// Post-adaptation response of one cone channel, and its inverse
+const adapt = (channel: number): number => {
+  const factor = (VIEWING.fl * Math.abs(channel) / 100) ** 0.42;
+  return Math.sign(channel) * 400 * factor / (factor + 27.13);
+};
+
+const unadapt = (adapted: number): number => {
+  const base = Math.max(0, 27.13 * Math.abs(adapted) / (400 - Math.abs(adapted)));
+  return Math.sign(adapted) * (100 / VIEWING.fl) * base ** (1 / 0.42);
+};
+
+const eccentricity = (hue: number): number => 0.25 * (Math.cos((hue * Math.PI) / 180 + 2) + 3.8);
+
+// CAM16 lightness (J), chroma and hue of an XYZ color (Y = 100 scale)
+const xyzToCam16 = ({ x, y, z }: XYZ): { j: number; c: number; h: number } => {
+  const [rA, gA, bA] = toCam16Rgb([x, y, z]).map((v, i) => adapt(v * VIEWING.rgbD[i]));
+  const a = (11 * rA - 12 * gA + bA) / 11;
+  const b = (rA + gA - 2 * bA) / 9;
+  const u = (20 * rA + 20 * gA + 21 * bA) / 20;
+  const p2 = (40 * rA + 20 * gA + bA) / 20;
+
+  const h = normalizeHue((Math.atan2(b, a) * 180) / Math.PI);
+  const j = 100 * ((p2 * VIEWING.nbb) / VIEWING.aw) ** (VIEWING.c * VIEWING.z);
+  const huePrime = h < 20.14 ? h + 360 : h;
+  const p1 = (50000 / 13) * eccentricity(huePrime) * VIEWING.nc * VIEWING.ncb;
+  const t = (p1 * Math.hypot(a, b)) / (u + 0.305);
+  const alpha = t ** 0.9 * (1.64 - 0.29 ** VIEWING.n) ** 0.73;
+  return { j, c: alpha * Math.sqrt(j / 100), h };
+};
+
+const cam16ToXyz = (j: number, chroma: number, hue: number): XYZ => {
+  const alpha = chroma === 0 || j === 0 ? 0 : chroma / Math.sqrt(j / 100);
+  const t = (alpha / (1.64 - 0.29 ** VIEWING.n) ** 0.73) ** (1 / 0.9);
+  const rad = (hue * Math.PI) / 180;
+  const p1 = eccentricity(hue) * (50000 / 13) * VIEWING.nc * VIEWING.ncb;
+  const p2 = (VIEWING.aw * (j / 100) ** (1 / VIEWING.c / VIEWING.z)) / VIEWING.nbb;
+  const gamma = (23 * (p2 + 0.305) * t) / (23 * p1 + 11 * t * Math.cos(rad) + 108 * t * Math.sin(rad));
+  const a = gamma * Math.cos(rad);
+  const b = gamma * Math.sin(rad);
+
+  const [r, g, bl] = [
+    (460 * p2 + 451 * a + 288 * b) / 1403,
+    (460 * p2 - 891 * a - 261 * b) / 1403,
+    (460 * p2 - 220 * a - 6300 * b) / 1403,
+  ].map((v, i) => unadapt(v) / VIEWING.rgbD[i]);
+
+  const [x, y, z] = CAM16_RGB_TO_XYZ.map(row => row[0] * r + row[1] * g + row[2] * bl);
+  return { x, y, z };
+};
+
+// Linear channels may overshoot by this much before a color counts as out of gamut
+const LINEAR_EPSILON = 1e-4;
+
+/**
+ * sRGB color with the given hue, chroma and Y: J is refined by Newton steps
+ * until the luminance matches, null when the result leaves the gamut
+ */
+const solveForY = (hue: number, chroma: number, y: number): LinearRGB | null => {
+  let j = Math.sqrt(y) * 11;
+  for (let i = 0; i < 8; i++) {
+    const xyz = cam16ToXyz(j, chroma, hue);
+    if (xyz.y <= 0) return null;
+    if (Math.abs(xyz.y - y) < 0.002) {
+      const linear = xyzToLinear({ x: xyz.x / 100, y: xyz.y / 100, z: xyz.z / 100 });
+      const inGamut = [linear.r, linear.g, linear.b].every(v => v >= -LINEAR_EPSILON && v <= 1 + LINEAR_EPSILON);
+      return inGamut ? linear : null;
+    }
+    j -= ((xyz.y - y) * j) / (2 * xyz.y);
+  }
+  return null;
+};
+
+const linearToHex = (linear: LinearRGB): string => {
+  const { r, g, b } = linearToRgb(linear);
+  return '#' + [r, g, b]
+    .map(v => Math.round(Math.min(255, Math.max(0, v))).toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const hexToHct = (hex: string): HCT => {
+  const xyz = rgbToXyz(hexToRgb(hex));
+  const cam = xyzToCam16({ x: xyz.x * 100, y: xyz.y * 100, z: xyz.z * 100 });
+  return { h: cam.h, c: cam.c, t: xyzToLab(xyz).l };
+};
+
+/**
+ * Hex color for an HCT triple. Hue and tone are always kept; when the chroma
+ * is not reachable at that tone it is reduced by binary search to the most
+ * colorful color sRGB can show, like Material's HCT solver does.
+ */
+export const hctToHex = ({ h, c, t }: HCT): string => {
+  if (t <= 0) return '#000000';
+  if (t >= 100) return '#ffffff';
+
+  const hue = normalizeHue(h);
+  const y = yFromLstar(t);
+  const gray = (): string => {
+    const xyz = labToXyz({ l: t, a: 0, b: 0 });
+    return linearToHex(xyzToLinear(xyz));
+  };
+  if (c < 1e-4) return gray();
+
+  const direct = solveForY(hue, c, y);
+  if (direct) return linearToHex(direct);
+
+  let best: LinearRGB | null = null;
+  let min = 0;
+  let max = c;
+  while (max - min > 0.01) {
+    const mid = (min + max) / 2;
+    const linear = solveForY(hue, mid, y);
+    if (linear) {
+      best = linear;
+      min = mid;
+    } else {
+      max = mid;
+    }
+  }
+  return best ? linearToHex(best) : gray();
+};
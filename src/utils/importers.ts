@@ -0,0 +1,434 @@
+import type { ColorPalette, Lab } from '../types';
+import { rgbToHex, withAlpha } from './colorUtils';
+import { parseCssColor } from './cssColor';
+import { labToRgb, clipRgb } from './colorSpaces';
+
+export type ImportFormat = 'json' | 'ase' | 'gpl' | 'sketch' | 'procreate' | 'css';
+
+export interface ImportedColor {
+  hex: string;
+  name?: string;
+}
+
+type PaletteRoles = Pick<ColorPalette, 'primary' | 'secondary' | 'accent' | 'background' | 'text'>;
+
+export interface ParsedPalette {
+  format: ImportFormat;
+  name: string;
+  colors: ImportedColor[];
+  // Only the app's own JSON carries roles, paired themes and generator settings
+  roles?: Partial<PaletteRoles>;
+  themes?: ColorPalette['themes'];
+  harmony?: ColorPalette['harmony'];
+}
+
+export interface PaletteImporter {
+  id: ImportFormat;
+  label: string;
+  extensions: string[];
+  // Content sniffing, used when the extension is missing or ambiguous
+  detect: (bytes: Uint8Array, text: string) => boolean;
+  parse: (data: ArrayBuffer, fileName: string) => Promise<Omit<ParsedPalette, 'format'>>;
+}
+
+// Helper: Build a hex string from channels in 0-1, clamping and rounding
+const unitRgbToHex = (r: number, g: number, b: number): string => {
+  const clamp = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 255);
+  return rgbToHex(clamp(r), clamp(g), clamp(b));
+};
+
+const hsvToHex = (h: number, s: number, v: number): string => {
+  const f = (n: number) => {
+    const k = (n + h * 6) % 6;
+    return v - v * s * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return unitRgbToHex(f(5), f(3), f(1));
+};
+
+const baseName = (fileName: string): string =>
+  fileName.replace(/\.[^.]+$/, '') || 'Imported Palette';
+
+const decodeText = (data: ArrayBuffer): string => new TextDecoder().decode(data);
+
+const startsWith = (bytes: Uint8Array, signature: number[]): boolean =>
+  signature.every((byte, i) => bytes[i] === byte);
+
+// App JSON ---------------------------------------------------------------
+
+// 3/6 digits, or 4/8 with alpha
+const HEX_PATTERN = /^#([0-9A-F]{3,4}|[0-9A-F]{6}|[0-9A-F]{8})$/i;
+
+const ROLE_KEYS = ['primary', 'secondary', 'accent', 'background', 'text'] as const;
+
+// Paired themes are kept only when both modes have every role
+const parseThemes = (value: unknown): ColorPalette['themes'] => {
+  if (!value || typeof value !== 'object') return undefined;
+  const themes = value as Partial<Record<'light' | 'dark', Partial<Record<keyof PaletteRoles, unknown>>>>;
+  const complete = (roles: Partial<Record<keyof PaletteRoles, unknown>> | undefined): roles is PaletteRoles =>
+    !!roles && ROLE_KEYS.every(role => typeof roles[role] === 'string' && HEX_PATTERN.test(roles[role]));
+
+  return complete(themes.light) && complete(themes.dark) ? { light: themes.light, dark: themes.dark } : undefined;
+};
+
+// Generator settings: the scheme name plus whatever parameters are numbers or booleans
+const parseHarmony = (value: unknown): ColorPalette['harmony'] => {
+  if (!value || typeof value !== 'object') return undefined;
+  const { scheme, params } = value as { scheme?: unknown; params?: unknown };
+  if (typeof scheme !== 'string' || !params || typeof params !== 'object') return undefined;
+
+  const valid = Object.entries(params).filter(([, v]) => typeof v === 'boolean' || (typeof v === 'number' && Number.isFinite(v)));
+  return { scheme, params: Object.fromEntries(valid) };
+};
+
+const parseJson = (data: ArrayBuffer, fileName: string): Promise<Omit<ParsedPalette, 'format'>> => {
+  const importedData = JSON.parse(decodeText(data)) as Partial<ColorPalette> | null;
+
+  if (!importedData || typeof importedData !== 'object' || !Array.isArray(importedData.colors)) {
+    throw new Error('Il file non contiene colori validi');
+  }
+
+  const colors = importedData.colors
+    .filter((color): color is string => typeof color === 'string' && HEX_PATTERN.test(color))
+    .map(hex => ({ hex }));
+
+  const roles: Partial<PaletteRoles> = {};
+  for (const role of ROLE_KEYS) {
+    const value = importedData[role];
+    if (typeof value === 'string' && HEX_PATTERN.test(value)) roles[role] = value;
+  }
+
+  return Promise.resolve({
+    name: typeof importedData.name === 'string' ? importedData.name : baseName(fileName),
+    colors,
+    roles,
+    themes: parseThemes(importedData.themes),
+    harmony: parseHarmony(importedData.harmony),
+  });
+};
+
+// Adobe Swatch Exchange --------------------------------------------------
+
+const ASE_SIGNATURE = [0x41, 0x53, 0x45, 0x46]; // "ASEF"
+const ASE_GROUP_START = 0xc001;
+const ASE_COLOR_ENTRY = 0x0001;
+
+const parseAse = (data: ArrayBuffer, fileName: string): Promise<Omit<ParsedPalette, 'format'>> => {
+  const view = new DataView(data);
+  if (!startsWith(new Uint8Array(data), ASE_SIGNATURE)) {
+    throw new Error('File ASE non valido');
+  }
+
+  const readName = (offset: number): { name: string; next: number } => {
+    const length = view.getUint16(offset);
+    let name = '';
+    for (let i = 0; i < length - 1; i++) {
+      name += String.fromCharCode(view.getUint16(offset + 2 + i * 2));
+    }
+    return { name, next: offset + 2 + length * 2 };
+  };
+
+  const blockCount = view.getUint32(8);
+  const colors: ImportedColor[] = [];
+  let groupName: string | undefined;
+  let offset = 12;
+
+  for (let i = 0; i < blockCount && offset < data.byteLength; i++) {
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const body = offset + 6;
+
+    if (type === ASE_GROUP_START && groupName === undefined) {
+      groupName = readName(body).name;
+    } else if (type === ASE_COLOR_ENTRY) {
+      const { name, next } = readName(body);
+      const model = String.fromCharCode(...new Uint8Array(data, next, 4)).trim();
+      const value = (n: number) => view.getFloat32(next + 4 + n * 4);
+
+      switch (model) {
+        case 'RGB':
+          colors.push({ name, hex: unitRgbToHex(value(0), value(1), value(2)) });
+          break;
+        case 'CMYK': {
+          const k = value(3);
+          colors.push({
+            name,
+            hex: unitRgbToHex((1 - value(0)) * (1 - k), (1 - value(1)) * (1 - k), (1 - value(2)) * (1 - k)),
+          });
+          break;
+        }
+        case 'LAB': {
+          // ASE stores L as 0-1; the D50 white point is approximated with D65
+          const lab: Lab = { l: value(0) * 100, a: value(1), b: value(2) };
+          const { r, g, b } = clipRgb(labToRgb(lab));
+          colors.push({ name, hex: rgbToHex(Math.round(r), Math.round(g), Math.round(b)) });
+          break;
+        }
+        case 'Gray':
+          colors.push({ name, hex: unitRgbToHex(value(0), value(0), value(0)) });
+          break;
+      }
+    }
+
+    offset = body + length;
+  }
+
+  return Promise.resolve({ name: groupName ?? baseName(fileName), colors });
+};
+
+// GIMP / Inkscape palette ------------------------------------------------
+
+const parseGpl = (data: ArrayBuffer, fileName: string): Promise<Omit<ParsedPalette, 'format'>> => {
+  const lines = decodeText(data).split(/\r?\n/);
+  if (!lines[0]?.trim().startsWith('GIMP Palette')) {
+    throw new Error('File GPL non valido');
+  }
+
+  let name = baseName(fileName);
+  const colors: ImportedColor[] = [];
+
+  for (const line of lines.slice(1)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('Columns:')) continue;
+
+    if (trimmed.startsWith('Name:')) {
+      name = trimmed.slice(5).trim() || name;
+      continue;
+    }
+
+    const match = /^(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/.exec(trimmed);
+    if (match) {
+      const [r, g, b] = [match[1], match[2], match[3]].map(v => Math.min(255, Number(v)));
+      colors.push({ hex: rgbToHex(r, g, b), name: match[4] || undefined });
+    }
+  }
+
+  return Promise.resolve({ name, colors });
+};
+
+// Sketch palette ---------------------------------------------------------
+
+interface SketchColor {
+  name?: string;
+  red: number;
+  green: number;
+  blue: number;
+  alpha?: number;
+}
+
+const parseSketch = (data: ArrayBuffer, fileName: string): Promise<Omit<ParsedPalette, 'format'>> => {
+  const json = JSON.parse(decodeText(data)) as { colors?: (SketchColor | string)[] };
+  if (!Array.isArray(json.colors)) {
+    throw new Error('File Sketch non valido');
+  }
+
+  // Version 1.x stores hex strings, 2.x stores 0-1 channel objects
+  const colors = json.colors.map((color): ImportedColor =>
+    typeof color === 'string'
+      ? { hex: color.startsWith('#') ? color : `#${color}` }
+      : { hex: withAlpha(unitRgbToHex(color.red, color.green, color.blue), color.alpha ?? 1), name: color.name }
+  ).filter(color => HEX_PATTERN.test(color.hex));
+
+  return Promise.resolve({ name: baseName(fileName), colors });
+};
+
+// Procreate swatches (zip archive with Swatches.json) --------------------
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+const readZipEntry = async (data: ArrayBuffer, entryName: string): Promise<ArrayBuffer | null> => {
+  const view = new DataView(data);
+
+  // End of central directory record, searched backwards past the optional comment
+  let eocd = -1;
+  for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const entries = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < entries; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(new Uint8Array(data, offset + 46, nameLength));
+
+    if (name === entryName || name.endsWith(`/${entryName}`)) {
+      const localNameLength = view.getUint16(localOffset + 26, true);
+      const localExtraLength = view.getUint16(localOffset + 28, true);
+      const start = localOffset + 30 + localNameLength + localExtraLength;
+      const compressed = data.slice(start, start + compressedSize);
+
+      if (method === 0) return compressed;
+      if (method === 8) {
+        const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        return new Response(stream).arrayBuffer();
+      }
+      throw new Error('Compressione non supportata nel file .swatches');
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+};
+
+interface ProcreateSwatch {
+  hue: number;
+  saturation: number;
+  brightness: number;
+}
+
+const parseProcreate = async (data: ArrayBuffer, fileName: string): Promise<Omit<ParsedPalette, 'format'>> => {
+  const entry = await readZipEntry(data, 'Swatches.json');
+  if (!entry) {
+    throw new Error('Swatches.json non trovato nel file Procreate');
+  }
+
+  const json = JSON.parse(decodeText(entry)) as
+    | { name?: string; swatches?: (ProcreateSwatch | null)[] }
+    | { name?: string; swatches?: (ProcreateSwatch | null)[] }[];
+  const set = Array.isArray(json) ? json[0] : json;
+
+  const colors = (set?.swatches ?? [])
+    .filter((swatch): swatch is ProcreateSwatch => swatch !== null)
+    .map(({ hue, saturation, brightness }) => ({ hex: hsvToHex(hue, saturation, brightness) }));
+
+  return { name: set?.name ?? baseName(fileName), colors };
+};
+
+// CSS / SCSS / Less ------------------------------------------------------
+
+const COLOR_LITERAL = /#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})\b|\b(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\([^)]*\)/gi;
+const DECLARATION = /^\s*(?:--|\$|@)?([\w-]+)\s*:/;
+
+const parseColorLiteral = (literal: string): string | null => {
+  try {
+    const { hex, alpha } = parseCssColor(literal);
+    return withAlpha(hex, alpha);
+  } catch {
+    return null;
+  }
+};
+
+const parseCss = (data: ArrayBuffer, fileName: string): Promise<Omit<ParsedPalette, 'format'>> => {
+  const seen = new Set<string>();
+  const colors: ImportedColor[] = [];
+
+  for (const line of decodeText(data).split(/\r?\n/)) {
+    const name = DECLARATION.exec(line)?.[1];
+    for (const literal of line.match(COLOR_LITERAL) ?? []) {
+      const hex = parseColorLiteral(literal);
+      if (hex && !seen.has(hex)) {
+        seen.add(hex);
+        colors.push({ hex, name });
+      }
+    }
+  }
+
+  return Promise.resolve({ name: baseName(fileName), colors });
+};
+
+// Registry ---------------------------------------------------------------
+
+export const importers: PaletteImporter[] = [
+  {
+    id: 'ase',
+    label: 'Adobe ASE',
+    extensions: ['ase'],
+    detect: bytes => startsWith(bytes, ASE_SIGNATURE),
+    parse: parseAse,
+  },
+  {
+    id: 'procreate',
+    label: 'Procreate',
+    extensions: ['swatches'],
+    detect: bytes => startsWith(bytes, ZIP_SIGNATURE),
+    parse: parseProcreate,
+  },
+  {
+    id: 'gpl',
+    label: 'GIMP / Inkscape',
+    extensions: ['gpl'],
+    detect: (_, text) => text.trimStart().startsWith('GIMP Palette'),
+    parse: parseGpl,
+  },
+  {
+    id: 'sketch',
+    label: 'Sketch',
+    extensions: ['sketchpalette'],
+    detect: (_, text) => text.includes('"compatibleVersion"'),
+    parse: parseSketch,
+  },
+  {
+    id: 'json',
+    label: 'JSON',
+    extensions: ['json'],
+    detect: (_, text) => text.trimStart().startsWith('{'),
+    parse: parseJson,
+  },
+  {
+    id: 'css',
+    label: 'CSS / SCSS / Less',
+    extensions: ['css', 'scss', 'sass', 'less'],
+    detect: (_, text) => new RegExp(COLOR_LITERAL.source, 'i').test(text),
+    parse: parseCss,
+  },
+];
+
+export const importAccept = importers.flatMap(i => i.extensions.map(ext => `.${ext}`)).join(',');
+
+export const detectImporter = (fileName: string, data: ArrayBuffer): PaletteImporter | undefined => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  const byExtension = importers.find(i => i.extensions.includes(extension));
+  if (byExtension) return byExtension;
+
+  const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, 4096));
+  const text = new TextDecoder().decode(bytes);
+  return importers.find(i => i.detect(bytes, text));
+};
+
+export const parsePaletteFile = async (fileName: string, data: ArrayBuffer): Promise<ParsedPalette> => {
+  const importer = detectImporter(fileName, data);
+  if (!importer) {
+    throw new Error('Formato del file non riconosciuto');
+  }
+
+  const parsed = await importer.parse(data, fileName);
+  if (parsed.colors.length === 0) {
+    throw new Error('Nessun colore valido trovato nel file');
+  }
+
+  return { ...parsed, format: importer.id };
+};
+
+// Turns the selected colors into a palette. Imported primary, secondary and accent are kept
+// only when their color survives the selection; background and text are not swatches
+export const buildImportedPalette = (parsed: ParsedPalette, selected: ImportedColor[]): ColorPalette => {
+  const colors = selected.map(c => c.hex);
+  const selectedHexes = new Set(colors.map(hex => hex.toLowerCase()));
+  const role = (key: keyof PaletteRoles, fallback: string) => parsed.roles?.[key] ?? fallback;
+  const swatchRole = (key: keyof PaletteRoles, fallback: string) => {
+    const hex = parsed.roles?.[key];
+    return hex && selectedHexes.has(hex.toLowerCase()) ? hex : fallback;
+  };
+
+  return {
+    name: parsed.name || 'Imported Palette',
+    colors,
+    primary: swatchRole('primary', colors[0]),
+    secondary: swatchRole('secondary', colors[1] ?? colors[0]),
+    accent: swatchRole('accent', colors[2] ?? colors[1] ?? colors[0]),
+    background: role('background', '#ffffff'),
+    text: role('text', '#000000'),
+    ...(parsed.themes ? { themes: parsed.themes } : {}),
+    ...(parsed.harmony ? { harmony: parsed.harmony } : {}),
+  };
+};
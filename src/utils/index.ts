@@ -1,5 +1,7 @@
 // Re-export all utility functions
 export * from './colorUtils';
+export * from './colorSpaces';
+export * from './contrast';
 
 export const getTextColor = (backgroundColor: string): string => {
   // Convert hex to RGB
@@ -22,33 +24,3 @@ export const copyToClipboard = async (text: string): Promise<void> => {
     console.error('Failed to copy text: ', err);
   }
 };
-
-export const getContrastRatio = (color1: string, color2: string): number => {
-  // Convert hex to RGB
-  const hexToRgb = (hex: string) => {
-    const r = parseInt(hex.slice(1, 3), 16) / 255;
-    const g = parseInt(hex.slice(3, 5), 16) / 255;
-    const b = parseInt(hex.slice(5, 7), 16) / 255;
-    return [r, g, b];
-  };
-
-  // Calculate relative luminance
-  const getLuminance = (r: number, g: number, b: number) => {
-    const a = [r, g, b].map(v => {
-      v /= 255;
-      return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
-    });
-    return a[0] * 0.2126 + a[1] * 0.7152 + a[2] * 0.0722;
-  };
-
-  const rgb1 = hexToRgb(color1);
-  const rgb2 = hexToRgb(color2);
-  
-  const lum1 = getLuminance(rgb1[0], rgb1[1], rgb1[2]);
-  const lum2 = getLuminance(rgb2[0], rgb2[1], rgb2[2]);
-  
-  const lighter = Math.max(lum1, lum2);
-  const darker = Math.min(lum1, lum2);
-  
-  return (lighter + 0.05) / (darker + 0.05);
-};
@@ -0,0 +1,167 @@
+import type { Lab, PaletteFolder, StoredPalette } from '../types';
+import { hexToLab, hexToOklab, hexToOklch } from './colorUtils';
+import { deltaE2000, deltaEOK } from './colorSpaces';
+
+export type LibrarySortKey = 'createdAt' | 'updatedAt' | 'name' | 'hue';
+export type SortDirection = 'asc' | 'desc';
+
+export const librarySortOptions: { value: LibrarySortKey; label: string }[] = [
+  { value: 'updatedAt', label: 'Modificate' },
+  { value: 'createdAt', label: 'Create' },
+  { value: 'name', label: 'Nome' },
+  { value: 'hue', label: 'Tinta' },
+];
+
+// Below this OKLCH chroma a color has no meaningful hue
+const ACHROMATIC_CHROMA = 0.02;
+
+// Hue of the primary color; grays sort after every chromatic palette
+const paletteHue = (palette: StoredPalette): number => {
+  const { l, c, h } = hexToOklch(palette.primary);
+  return c < ACHROMATIC_CHROMA ? 360 + (1 - l) : h;
+};
+
+export const sortPalettes = (
+  palettes: StoredPalette[],
+  key: LibrarySortKey,
+  direction: SortDirection = 'desc'
+): StoredPalette[] => {
+  const sign = direction === 'asc' ? 1 : -1;
+  const compare = (a: StoredPalette, b: StoredPalette): number => {
+    switch (key) {
+      case 'name':
+        return a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true });
+      case 'hue':
+        return paletteHue(a) - paletteHue(b);
+      default:
+        return a[key].localeCompare(b[key]);
+    }
+  };
+  return [...palettes].sort((a, b) => sign * compare(a, b));
+};
+
+/**
+ * Full-text search over names, tags and hex values.
+ * Every whitespace-separated term must match; hex terms match with or without '#'
+ * and as prefixes, so "4f46" finds #4F46E5.
+ */
+export const searchPalettes = (palettes: StoredPalette[], query: string): StoredPalette[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return palettes;
+
+  return palettes.filter(palette => {
+    const hexes = [...palette.colors, palette.primary, palette.secondary, palette.accent, palette.background, palette.text]
+      .map(c => c.toLowerCase().replace(/^#/, ''));
+    const text = [palette.name, ...palette.tags].join(' ').toLowerCase();
+
+    return terms.every(term => {
+      const hexTerm = term.replace(/^#/, '');
+      return text.includes(term) || hexes.some(hex => hex.startsWith(hexTerm));
+    });
+  });
+};
+
+// Every tag used in the library, alphabetically
+export const collectTags = (palettes: StoredPalette[]): string[] =>
+  [...new Set(palettes.flatMap(p => p.tags))].sort((a, b) => a.localeCompare(b));
+
+export type SimilarityMetric = 'ciede2000' | 'oklab';
+
+export interface SimilarityMetricInfo {
+  value: SimilarityMetric;
+  label: string;
+  // Slider range and default tolerance, in the metric's own units
+  min: number;
+  max: number;
+  step: number;
+  defaultTolerance: number;
+}
+
+export const similarityMetrics: SimilarityMetricInfo[] = [
+  { value: 'ciede2000', label: 'ΔE 2000', min: 1, max: 40, step: 1, defaultTolerance: 10 },
+  { value: 'oklab', label: 'ΔE OKLab', min: 0.01, max: 0.4, step: 0.01, defaultTolerance: 0.1 },
+];
+
+export interface SimilarPalette {
+  palette: StoredPalette;
+  // Query colors with a palette color within tolerance
+  matchedQueries: number;
+  // Mean distance from each query color to its nearest palette color
+  distance: number;
+  // Indexes in palette.colors within tolerance of some query color
+  matchingIndexes: Set<number>;
+}
+
+// OKLab and CIELAB share the { l, a, b } shape: convert once, compare many times
+const metricSpace = (metric: SimilarityMetric): { convert: (hex: string) => Lab; compare: (a: Lab, b: Lab) => number } =>
+  metric === 'oklab'
+    ? { convert: hexToOklab, compare: deltaEOK }
+    : { convert: hexToLab, compare: deltaE2000 };
+
+/**
+ * Ranks palettes by perceptual similarity to one or more query colors.
+ * A palette is kept when at least one query color has a match within
+ * `tolerance`; more matched query colors rank first, then lower mean distance.
+ */
+export const findSimilarPalettes = (
+  palettes: StoredPalette[],
+  query: string[],
+  tolerance: number,
+  metric: SimilarityMetric = 'ciede2000'
+): SimilarPalette[] => {
+  if (query.length === 0) return [];
+  const { convert, compare } = metricSpace(metric);
+  const targets = query.map(convert);
+
+  return palettes
+    .map((palette): SimilarPalette => {
+      const matchingIndexes = new Set<number>();
+      let matchedQueries = 0;
+      let total = 0;
+
+      const points = palette.colors.map(convert);
+
+      for (const target of targets) {
+        let nearest = Infinity;
+        points.forEach((point, i) => {
+          const d = compare(target, point);
+          nearest = Math.min(nearest, d);
+          if (d <= tolerance) matchingIndexes.add(i);
+        });
+        if (nearest <= tolerance) matchedQueries++;
+        total += nearest;
+      }
+
+      return { palette, matchedQueries, distance: total / query.length, matchingIndexes };
+    })
+    .filter(result => result.matchedQueries > 0)
+    .sort((a, b) => b.matchedQueries - a.matchedQueries || a.distance - b.distance);
+};
+
+// Library export -----------------------------------------------------------
+
+export const LIBRARY_EXPORT_FORMAT = 'spectra-library';
+
+/**
+ * Full library records (themes, roles, generator settings and library
+ * metadata included) plus the folders they live in, so the file can be
+ * imported back without losing anything
+ */
+export const buildLibraryExport = (palettes: StoredPalette[], folders: PaletteFolder[]): string => {
+  const folderIds = new Set(palettes.map(p => p.folderId));
+  return JSON.stringify({
+    format: LIBRARY_EXPORT_FORMAT,
+    exportedAt: new Date().toISOString(),
+    folders: folders.filter(f => folderIds.has(f.id)),
+    palettes,
+  }, null, 2);
+};
+
+// Raw records of a library export; the repository validates them when importing
+export const parseLibraryExport = (text: string): { palettes: unknown[]; folders: unknown[] } => {
+  const data = JSON.parse(text) as { format?: unknown; palettes?: unknown; folders?: unknown } | null;
+  if (!data || data.format !== LIBRARY_EXPORT_FORMAT || !Array.isArray(data.palettes)) {
+    throw new Error('Il file non è un\'esportazione della libreria');
+  }
+  return { palettes: data.palettes as unknown[], folders: Array.isArray(data.folders) ? data.folders as unknown[] : [] };
+};
@@ -0,0 +1,251 @@
+import type {
+  ColorPalette,
+  HCT,
+  MaterialPaletteKey,
+  MaterialRole,
+  MaterialRoles,
+  MaterialScheme,
+  MaterialVariant,
+  SemanticRole,
+  ThemeMode,
+  ThemeRoles,
+} from '../types';
+import { getContrastRatio } from './contrast';
+import { normalizeHue } from './colorSpaces';
+import { hctToHex, hexToHct } from './hct';
+
+export const materialVariants: { value: MaterialVariant; label: string }[] = [
+  { value: 'tonalSpot', label: 'Tonal Spot' },
+  { value: 'vibrant', label: 'Vibrant' },
+  { value: 'expressive', label: 'Expressive' },
+  { value: 'fidelity', label: 'Fidelity' },
+  { value: 'content', label: 'Content' },
+];
+
+// Tones a Material tonal palette is usually published with
+export const MATERIAL_TONES = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 95, 99, 100] as const;
+
+type PaletteSpec = Record<MaterialPaletteKey, { h: number; c: number }>;
+
+// Error palette is the same for every variant
+const ERROR_PALETTE = { h: 25, c: 84 };
+
+// Hue ranges and rotations used by Vibrant and Expressive for their secondary/tertiary palettes
+const ROTATION_HUES = [0, 41, 61, 101, 131, 181, 251, 301, 360];
+const ROTATIONS = {
+  vibrantSecondary: [18, 15, 10, 12, 15, 18, 15, 12, 12],
+  vibrantTertiary: [35, 30, 20, 25, 30, 35, 30, 25, 25],
+  expressiveSecondary: [45, 95, 45, 20, 45, 90, 45, 45, 45],
+  expressiveTertiary: [120, 120, 20, 45, 20, 15, 20, 120, 120],
+};
+
+const rotatedHue = (hue: number, rotations: number[]): number => {
+  const index = ROTATION_HUES.findIndex((from, i) => i < ROTATION_HUES.length - 1 && from <= hue && hue < ROTATION_HUES[i + 1]);
+  return index < 0 ? hue : normalizeHue(hue + rotations[index]);
+};
+
+/**
+ * Hue and chroma of the key palettes for each variant. Fidelity and Content
+ * keep the source chroma; Material picks their tertiary hue with a color
+ * temperature model, here the complement (Fidelity) and the analogous hue
+ * 60° away (Content) stand in for it.
+ */
+const PALETTE_SPECS: Record<MaterialVariant, (source: HCT) => PaletteSpec> = {
+  tonalSpot: ({ h }) => ({
+    primary: { h, c: 36 },
+    secondary: { h, c: 16 },
+    tertiary: { h: normalizeHue(h + 60), c: 24 },
+    neutral: { h, c: 6 },
+    neutralVariant: { h, c: 8 },
+    error: ERROR_PALETTE,
+  }),
+  vibrant: ({ h }) => ({
+    primary: { h, c: 200 },
+    secondary: { h: rotatedHue(h, ROTATIONS.vibrantSecondary), c: 24 },
+    tertiary: { h: rotatedHue(h, ROTATIONS.vibrantTertiary), c: 32 },
+    neutral: { h, c: 10 },
+    neutralVariant: { h, c: 12 },
+    error: ERROR_PALETTE,
+  }),
+  expressive: ({ h }) => ({
+    primary: { h: normalizeHue(h + 240), c: 40 },
+    secondary: { h: rotatedHue(h, ROTATIONS.expressiveSecondary), c: 24 },
+    tertiary: { h: rotatedHue(h, ROTATIONS.expressiveTertiary), c: 32 },
+    neutral: { h: normalizeHue(h + 15), c: 8 },
+    neutralVariant: { h: normalizeHue(h + 15), c: 12 },
+    error: ERROR_PALETTE,
+  }),
+  fidelity: ({ h, c }) => ({
+    primary: { h, c },
+    secondary: { h, c: Math.max(c - 32, c * 0.5) },
+    tertiary: { h: normalizeHue(h + 180), c: Math.max(c - 32, c * 0.5) },
+    neutral: { h, c: c / 8 },
+    neutralVariant: { h, c: c / 8 + 4 },
+    error: ERROR_PALETTE,
+  }),
+  content: ({ h, c }) => ({
+    primary: { h, c },
+    secondary: { h, c: Math.max(c - 32, c * 0.5) },
+    tertiary: { h: normalizeHue(h + 60), c },
+    neutral: { h, c: c / 8 },
+    neutralVariant: { h, c: c / 8 + 4 },
+    error: ERROR_PALETTE,
+  }),
+};
+
+// Palette and tone (light, dark) every role is taken from
+const ROLE_TONES: Record<MaterialRole, [MaterialPaletteKey, number, number]> = {
+  primary: ['primary', 40, 80],
+  onPrimary: ['primary', 100, 20],
+  primaryContainer: ['primary', 90, 30],
+  onPrimaryContainer: ['primary', 10, 90],
+  secondary: ['secondary', 40, 80],
+  onSecondary: ['secondary', 100, 20],
+  secondaryContainer: ['secondary', 90, 30],
+  onSecondaryContainer: ['secondary', 10, 90],
+  tertiary: ['tertiary', 40, 80],
+  onTertiary: ['tertiary', 100, 20],
+  tertiaryContainer: ['tertiary', 90, 30],
+  onTertiaryContainer: ['tertiary', 10, 90],
+  error: ['error', 40, 80],
+  onError: ['error', 100, 20],
+  errorContainer: ['error', 90, 30],
+  onErrorContainer: ['error', 10, 90],
+  background: ['neutral', 99, 10],
+  onBackground: ['neutral', 10, 90],
+  surface: ['neutral', 99, 10],
+  onSurface: ['neutral', 10, 90],
+  surfaceVariant: ['neutralVariant', 90, 30],
+  onSurfaceVariant: ['neutralVariant', 30, 80],
+  outline: ['neutralVariant', 50, 60],
+  outlineVariant: ['neutralVariant', 80, 30],
+  shadow: ['neutral', 0, 0],
+  scrim: ['neutral', 0, 0],
+  inverseSurface: ['neutral', 20, 90],
+  inverseOnSurface: ['neutral', 95, 20],
+  inversePrimary: ['primary', 80, 40],
+};
+
+export const MATERIAL_ROLES = Object.keys(ROLE_TONES) as MaterialRole[];
+
+// "primaryContainer" -> "Primary container"
+export const materialRoleLabel = (role: MaterialRole): string => {
+  const words = role.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Full Material 3 scheme for a source color: the six key tonal palettes of the
+ * variant and the light and dark role sets read from them. Fidelity and Content
+ * keep the source tone for the primary container, as Material does.
+ */
+export const generateMaterialScheme = (source: string, variant: MaterialVariant = 'tonalSpot'): MaterialScheme => {
+  const sourceHct = hexToHct(source);
+  const specs = PALETTE_SPECS[variant](sourceHct);
+  const tone = (key: MaterialPaletteKey, t: number) => hctToHex({ ...specs[key], t });
+
+  const palettes = Object.fromEntries(
+    (Object.keys(specs) as MaterialPaletteKey[]).map(key =>
+      [key, Object.fromEntries(MATERIAL_TONES.map(t => [t, tone(key, t)]))])
+  ) as MaterialScheme['palettes'];
+
+  const roles = (mode: ThemeMode): MaterialRoles => {
+    const entries = MATERIAL_ROLES.map(role => {
+      const [key, light, dark] = ROLE_TONES[role];
+      return [role, tone(key, mode === 'light' ? light : dark)];
+    });
+    const result = Object.fromEntries(entries) as MaterialRoles;
+
+    if (variant === 'fidelity' || variant === 'content') {
+      result.primaryContainer = tone('primary', sourceHct.t);
+      const candidates = [tone('primary', 10), tone('primary', 100)];
+      result.onPrimaryContainer = getContrastRatio(candidates[0], result.primaryContainer) >=
+        getContrastRatio(candidates[1], result.primaryContainer) ? candidates[0] : candidates[1];
+    }
+    return result;
+  };
+
+  return { source, variant, palettes, light: roles('light'), dark: roles('dark') };
+};
+
+// How the Material roles map onto the palette's theme roles
+export const materialThemeRoles = (roles: MaterialRoles): ThemeRoles => ({
+  primary: roles.primary,
+  secondary: roles.secondary,
+  accent: roles.tertiary,
+  background: roles.surface,
+  text: roles.onSurface,
+});
+
+// Swatches a Material scheme contributes to the palette: the first three become primary, secondary and accent
+export const MATERIAL_SWATCH_ROLES: MaterialRole[] = [
+  'primary',
+  'secondary',
+  'tertiary',
+  'primaryContainer',
+  'secondaryContainer',
+  'tertiaryContainer',
+  'surface',
+  'surfaceVariant',
+  'outline',
+  'onSurface',
+  'onSurfaceVariant',
+  'error',
+  'onPrimary',
+  'onSecondary',
+  'onTertiary',
+  'onError',
+];
+
+// Semantic roles Material defines directly; the others keep being inferred
+const SEMANTIC_MATERIAL_ROLES: Partial<Record<SemanticRole, MaterialRole>> = {
+  surfaceVariant: 'surfaceVariant',
+  border: 'outline',
+  muted: 'onSurfaceVariant',
+  error: 'error',
+  onPrimary: 'onPrimary',
+  onSecondary: 'onSecondary',
+  onAccent: 'onTertiary',
+  onSurface: 'onSurface',
+  onError: 'onError',
+};
+
+// Semantic roles pinned to the index of their Material swatch
+const materialRoleAssignments = (): Partial<Record<SemanticRole, number>> => {
+  const roleAssignments: Partial<Record<SemanticRole, number>> = {};
+  for (const [role, materialRole] of Object.entries(SEMANTIC_MATERIAL_ROLES) as [SemanticRole, MaterialRole][]) {
+    roleAssignments[role] = MATERIAL_SWATCH_ROLES.indexOf(materialRole);
+  }
+  return roleAssignments;
+};
+
+// Whether the palette still carries the role assignments a Material scheme pinned, which only fit Material swatches
+export const hasMaterialRoleAssignments = (palette: ColorPalette): boolean => {
+  const expected = Object.entries(materialRoleAssignments());
+  const actual = palette.roleAssignments ?? {};
+  return Object.keys(actual).length === expected.length &&
+    expected.every(([role, index]) => actual[role as SemanticRole] === index);
+};
+
+/**
+ * Palette fields a Material scheme sets besides the swatches: the light roles
+ * inline, both modes as paired themes and the semantic roles pinned to the
+ * matching swatches
+ */
+export const materialPaletteFields = (scheme: MaterialScheme): Pick<ColorPalette, keyof ThemeRoles | 'themes' | 'roleAssignments'> => {
+  const roleAssignments = materialRoleAssignments();
+  return {
+    ...materialThemeRoles(scheme.light),
+    themes: { light: materialThemeRoles(scheme.light), dark: materialThemeRoles(scheme.dark) },
+    roleAssignments,
+  };
+};
+
+// Material Theme Builder-like JSON with both role sets and the tonal palettes
+export const materialSchemeToJson = (scheme: MaterialScheme): string =>
+  JSON.stringify({
+    seed: scheme.source.toUpperCase(),
+    variant: scheme.variant,
+    schemes: { light: scheme.light, dark: scheme.dark },
+    palettes: scheme.palettes,
+  }, null, 2);
@@ -0,0 +1,22 @@
+import type { SemanticRole, SemanticRoles, ThemeRoles } from '../types';
+import { hexToRgb } from './colorUtils';
+import { THEME_ROLE_KEYS } from './themePairs';
+
+const rgbChannels = (hex: string): string => {
+  const { r, g, b } = hexToRgb(hex);
+  return `${r} ${g} ${b}`;
+};
+
+// surfaceVariant -> --preview-surface-variant
+const previewVariable = (role: SemanticRole): string =>
+  `--preview-${role.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}`;
+
+/**
+ * Scoped --color-* variables in the "r g b" form tailwind.config.js expects,
+ * so bg-primary, text-text/60 etc. resolve to the previewed palette.
+ * Semantic roles have no Tailwind name and go to --preview-* (surface, on-primary, ...).
+ */
+export const toPreviewVariables = (theme: ThemeRoles, semantic: SemanticRoles): Record<string, string> => ({
+  ...Object.fromEntries(THEME_ROLE_KEYS.map(role => [`--color-${role}`, rgbChannels(theme[role])])),
+  ...Object.fromEntries((Object.keys(semantic) as SemanticRole[]).map(role => [previewVariable(role), rgbChannels(semantic[role])])),
+});
@@ -0,0 +1,215 @@
+import type { ColorPalette, OKLab, RGB } from '../types';
+import { rgbToOklab, oklabToRgb, oklabToOklch, clipRgb } from './colorSpaces';
+import { rgbToHex, getContrastText } from './colorUtils';
+
+export type QuantizeMethod = 'kmeans' | 'median-cut';
+
+export interface QuantizeRequest {
+  // RGBA bytes as returned by CanvasRenderingContext2D.getImageData
+  pixels: Uint8ClampedArray;
+  method: QuantizeMethod;
+  count: number;
+  accentCount: number;
+}
+
+export interface ExtractedColor {
+  hex: string;
+  // Share of the sampled (opaque) pixels assigned to this color, 0-1
+  coverage: number;
+  accent: boolean;
+}
+
+interface Cluster {
+  rgb: RGB;
+  size: number;
+}
+
+// Accents are picked among the leftover clusters, so quantize a few extra
+const EXTRA_CLUSTERS = 6;
+const MIN_ACCENT_CHROMA = 0.08;
+
+const readPixels = (pixels: Uint8ClampedArray): RGB[] => {
+  const result: RGB[] = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    // Skip (mostly) transparent pixels
+    if (pixels[i + 3] < 128) continue;
+    result.push({ r: pixels[i], g: pixels[i + 1], b: pixels[i + 2] });
+  }
+  return result;
+};
+
+const distanceSquared = (a: OKLab, b: OKLab): number =>
+  (a.l - b.l) ** 2 + (a.a - b.a) ** 2 + (a.b - b.b) ** 2;
+
+/**
+ * k-means in OKLab with k-means++ seeding, so clusters follow perceived
+ * differences instead of raw RGB distance.
+ */
+export const kMeansOklab = (colors: RGB[], k: number, maxIterations = 20): Cluster[] => {
+  if (colors.length === 0) return [];
+
+  const points = colors.map(rgbToOklab);
+  const centroids: OKLab[] = [points[Math.floor(Math.random() * points.length)]];
+  const nearest = points.map(p => distanceSquared(p, centroids[0]));
+
+  while (centroids.length < Math.min(k, points.length)) {
+    const total = nearest.reduce((sum, d) => sum + d, 0);
+    if (total === 0) break;
+
+    let target = Math.random() * total;
+    let index = 0;
+    while (target > nearest[index] && index < points.length - 1) {
+      target -= nearest[index];
+      index++;
+    }
+
+    centroids.push(points[index]);
+    points.forEach((p, i) => {
+      nearest[i] = Math.min(nearest[i], distanceSquared(p, points[index]));
+    });
+  }
+
+  const assignments = new Int32Array(points.length);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+
+    points.forEach((p, i) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centroids.forEach((c, j) => {
+        const d = distanceSquared(p, c);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = j;
+        }
+      });
+      if (assignments[i] !== best) {
+        assignments[i] = best;
+        changed = true;
+      }
+    });
+
+    const sums = centroids.map(() => ({ l: 0, a: 0, b: 0, n: 0 }));
+    points.forEach((p, i) => {
+      const sum = sums[assignments[i]];
+      sum.l += p.l;
+      sum.a += p.a;
+      sum.b += p.b;
+      sum.n++;
+    });
+    sums.forEach((sum, j) => {
+      if (sum.n > 0) centroids[j] = { l: sum.l / sum.n, a: sum.a / sum.n, b: sum.b / sum.n };
+    });
+
+    if (!changed && iteration > 0) break;
+  }
+
+  const sizes = new Array<number>(centroids.length).fill(0);
+  assignments.forEach(j => sizes[j]++);
+
+  return centroids
+    .map((c, j) => ({ rgb: clipRgb(oklabToRgb(c)), size: sizes[j] }))
+    .filter(cluster => cluster.size > 0);
+};
+
+/**
+ * Classic median cut in RGB: repeatedly split the box with the widest
+ * channel range at its median until there are `count` boxes.
+ */
+export const medianCut = (colors: RGB[], count: number): Cluster[] => {
+  if (colors.length === 0) return [];
+
+  const channels = ['r', 'g', 'b'] as const;
+  const range = (box: RGB[], channel: typeof channels[number]) => {
+    let min = 255;
+    let max = 0;
+    for (const c of box) {
+      min = Math.min(min, c[channel]);
+      max = Math.max(max, c[channel]);
+    }
+    return max - min;
+  };
+
+  const boxes: RGB[][] = [colors];
+  while (boxes.length < count) {
+    // Split the box with the largest spread
+    let target = -1;
+    let widest = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      const spread = Math.max(...channels.map(ch => range(box, ch)));
+      if (spread > widest) {
+        widest = spread;
+        target = i;
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const channel = channels.reduce((a, b) => (range(box, a) >= range(box, b) ? a : b));
+    const sorted = [...box].sort((a, b) => a[channel] - b[channel]);
+    const middle = Math.floor(sorted.length / 2);
+    boxes.splice(target, 1, sorted.slice(0, middle), sorted.slice(middle));
+  }
+
+  return boxes.map(box => {
+    const sum = box.reduce((acc, c) => ({ r: acc.r + c.r, g: acc.g + c.g, b: acc.b + c.b }), { r: 0, g: 0, b: 0 });
+    return { rgb: { r: sum.r / box.length, g: sum.g / box.length, b: sum.b / box.length }, size: box.length };
+  });
+};
+
+const clusterHex = ({ rgb }: Cluster): string =>
+  rgbToHex(Math.round(rgb.r), Math.round(rgb.g), Math.round(rgb.b));
+
+// Flat areas can be split into identical boxes/centroids: fold them back together
+const mergeDuplicates = (clusters: Cluster[]): Cluster[] => {
+  const byHex = new Map<string, Cluster>();
+  for (const cluster of clusters) {
+    const hex = clusterHex(cluster);
+    const existing = byHex.get(hex);
+    byHex.set(hex, existing ? { rgb: existing.rgb, size: existing.size + cluster.size } : cluster);
+  }
+  return [...byHex.values()];
+};
+
+export const quantizePixels = ({ pixels, method, count, accentCount }: QuantizeRequest): ExtractedColor[] => {
+  const colors = readPixels(pixels);
+  const k = count + (accentCount > 0 ? EXTRA_CLUSTERS : 0);
+  const clusters = mergeDuplicates(method === 'kmeans' ? kMeansOklab(colors, k) : medianCut(colors, k))
+    .sort((a, b) => b.size - a.size);
+
+  const toExtracted = (cluster: Cluster, accent: boolean): ExtractedColor => ({
+    hex: clusterHex(cluster),
+    coverage: colors.length > 0 ? cluster.size / colors.length : 0,
+    accent,
+  });
+
+  const dominant = clusters.slice(0, count);
+  // Accents: the most saturated of the remaining clusters, however small
+  const accents = clusters.slice(count)
+    .map(cluster => ({ cluster, chroma: oklabToOklch(rgbToOklab(cluster.rgb)).c }))
+    .filter(({ chroma }) => chroma >= MIN_ACCENT_CHROMA)
+    .sort((a, b) => b.chroma - a.chroma)
+    .slice(0, accentCount);
+
+  return [
+    ...dominant.map(cluster => toExtracted(cluster, false)),
+    ...accents.map(({ cluster }) => toExtracted(cluster, true)),
+  ];
+};
+
+// Same role assignment as generateRandomPalette
+export const paletteFromExtraction = (name: string, extracted: ExtractedColor[]): ColorPalette => {
+  const colors = extracted.map(c => c.hex);
+  const primaryColor = colors[0];
+  return {
+    name,
+    colors,
+    primary: primaryColor,
+    secondary: colors[1] ?? primaryColor,
+    accent: extracted.find(c => c.accent)?.hex ?? colors[2] ?? colors[1] ?? primaryColor,
+    background: getContrastText(primaryColor) === '#ffffff' ? '#111827' : '#f9fafb',
+    text: getContrastText(primaryColor),
+    createdAt: new Date().toISOString(),
+  };
+};
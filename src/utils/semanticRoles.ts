@@ -0,0 +1,145 @@
+import type { ColorPalette, SemanticRole, SemanticRoles, ThemeMode, ThemeRoles } from '../types';
+import { hexToOklch, oklchToHex } from './colorUtils';
+import { normalizeHue } from './colorSpaces';
+import { getContrastRatio, suggestPassingColor, WCAG_THRESHOLDS } from './contrast';
+import { derivePairedThemes, detectThemeMode } from './themePairs';
+
+export type StatusRole = 'success' | 'warning' | 'error' | 'info';
+
+export const SEMANTIC_ROLE_GROUPS: { label: string; roles: SemanticRole[] }[] = [
+  { label: 'Superfici', roles: ['surface', 'surfaceVariant', 'border', 'muted'] },
+  { label: 'Stati', roles: ['success', 'warning', 'error', 'info'] },
+  { label: 'Testo su', roles: ['onPrimary', 'onSecondary', 'onAccent', 'onSurface', 'onSuccess', 'onWarning', 'onError', 'onInfo'] },
+];
+
+export const semanticRoleLabels: Record<SemanticRole, string> = {
+  surface: 'Surface',
+  surfaceVariant: 'Surface variant',
+  border: 'Border',
+  muted: 'Muted',
+  success: 'Success',
+  warning: 'Warning',
+  error: 'Error',
+  info: 'Info',
+  onPrimary: 'On primary',
+  onSecondary: 'On secondary',
+  onAccent: 'On accent',
+  onSurface: 'On surface',
+  onSuccess: 'On success',
+  onWarning: 'On warning',
+  onError: 'On error',
+  onInfo: 'On info',
+};
+
+// Canonical OKLCH hues of the status colors before harmonization
+const STATUS_HUES: Record<StatusRole, number> = {
+  success: 145,
+  warning: 75,
+  error: 25,
+  info: 245,
+};
+
+// Status colors drift towards the brand hue by half the distance, capped so they stay recognizable
+const MAX_HUE_SHIFT = 15;
+
+// OKLCH lightness of the derived colors, per mode
+const TONES: Record<ThemeMode, { surface: number; surfaceVariant: number; border: number; status: number; warning: number }> = {
+  light: { surface: -0.03, surfaceVariant: -0.07, border: 0.87, status: 0.55, warning: 0.75 },
+  dark: { surface: 0.04, surfaceVariant: 0.09, border: 0.38, status: 0.75, warning: 0.82 },
+};
+
+/**
+ * Rotates `hue` towards `target` by half their distance, at most MAX_HUE_SHIFT degrees
+ */
+export const harmonizeHue = (hue: number, target: number): number => {
+  const diff = ((target - hue + 540) % 360) - 180;
+  return normalizeHue(hue + Math.sign(diff) * Math.min(Math.abs(diff) / 2, MAX_HUE_SHIFT));
+};
+
+/**
+ * Readable foreground for a fill: the theme's own text/background first, plain white/black otherwise
+ */
+const onColor = (fill: string, roles: ThemeRoles): string => {
+  const candidates = [roles.text, roles.background, '#ffffff', '#000000'];
+  return candidates.find(c => getContrastRatio(c, fill) >= WCAG_THRESHOLDS.aaNormal) ??
+    candidates.reduce((best, c) => getContrastRatio(c, fill) > getContrastRatio(best, fill) ? c : best);
+};
+
+/**
+ * Full semantic role map inferred from the five base roles. Surfaces and borders
+ * are tinted with the primary hue, status colors are harmonized to it and every
+ * foreground is checked against the fill it sits on.
+ */
+export const inferSemanticRoles = (roles: ThemeRoles): SemanticRoles => {
+  const mode = detectThemeMode(roles);
+  const tones = TONES[mode];
+  const brand = hexToOklch(roles.primary);
+  const background = hexToOklch(roles.background);
+  const tint = (l: number, c: number) => oklchToHex({ l: Math.min(1, Math.max(0, l)), c: brand.c > 0.02 ? c : 0, h: brand.h });
+
+  const surface = tint(background.l + tones.surface, 0.01);
+  const surfaceVariant = tint(background.l + tones.surfaceVariant, 0.02);
+  const border = tint(tones.border, 0.02);
+
+  // Testo secondario: a metà tra testo e sfondo, ma sempre leggibile
+  const text = hexToOklch(roles.text);
+  const mutedCandidate = tint((text.l + background.l) / 2, 0.02);
+  const muted = suggestPassingColor(mutedCandidate, roles.background, WCAG_THRESHOLDS.aaNormal) ?? roles.text;
+
+  const status = (role: StatusRole): string => {
+    const candidate = oklchToHex({
+      l: role === 'warning' ? tones.warning : tones.status,
+      c: 0.15,
+      h: harmonizeHue(STATUS_HUES[role], brand.h),
+    });
+    // Come gli altri colori non testuali: almeno 3:1 sullo sfondo
+    return suggestPassingColor(candidate, roles.background, WCAG_THRESHOLDS.aaLarge) ?? candidate;
+  };
+
+  const success = status('success');
+  const warning = status('warning');
+  const error = status('error');
+  const info = status('info');
+
+  return {
+    surface,
+    surfaceVariant,
+    border,
+    muted,
+    success,
+    warning,
+    error,
+    info,
+    onPrimary: onColor(roles.primary, roles),
+    onSecondary: onColor(roles.secondary, roles),
+    onAccent: onColor(roles.accent, roles),
+    onSurface: onColor(surface, roles),
+    onSuccess: onColor(success, roles),
+    onWarning: onColor(warning, roles),
+    onError: onColor(error, roles),
+    onInfo: onColor(info, roles),
+  };
+};
+
+/**
+ * Semantic roles of a palette: inferred, then overridden by the swatches the
+ * user pinned in the role editor (assignments to missing swatches are ignored)
+ */
+export const resolveSemanticRoles = (palette: ColorPalette): SemanticRoles => {
+  const roles = inferSemanticRoles(palette);
+  for (const [role, index] of Object.entries(palette.roleAssignments ?? {}) as [SemanticRole, number][]) {
+    const swatch = palette.colors[index];
+    if (swatch) roles[role] = swatch;
+  }
+  return roles;
+};
+
+/**
+ * Semantic roles for one mode: the palette's own mode honours the assignments,
+ * the paired mode is inferred from its theme roles
+ */
+export const semanticRolesFor = (palette: ColorPalette, mode: ThemeMode): SemanticRoles => {
+  if (mode === detectThemeMode(palette)) return resolveSemanticRoles(palette);
+  const themes = palette.themes ?? derivePairedThemes(palette);
+  return inferSemanticRoles(themes[mode]);
+};
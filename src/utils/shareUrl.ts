@@ -0,0 +1,107 @@
+import type { ColorPalette } from '../types';
+
+/**
+ * Palette state that can be carried by a link.
+ * Short routes (`/p/4F46E5-7C3AED-EC4899`) only carry the colors;
+ * the query string adds roles, scheme, base color and material settings.
+ */
+export interface SharedPaletteState {
+  palette: ColorPalette;
+  schemeType?: string;
+  baseColor?: string;
+  reflectiveness?: number;
+  opacity?: number;
+}
+
+export const SHARE_ROUTE_PREFIX = '/p/';
+
+// Order of the role colors in the `roles` parameter
+const ROLE_KEYS = ['primary', 'secondary', 'accent', 'background', 'text'] as const;
+
+const DEFAULT_BACKGROUND = '#ffffff';
+const DEFAULT_TEXT = '#111827';
+
+// 3/6 digits, or 4/8 with alpha
+const HEX_PATTERN = /^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+// Colors travel without '#', uppercased, so the path stays readable
+const encodeColor = (hex: string): string => hex.replace(/^#/, '').toUpperCase();
+
+const decodeColor = (value: string): string | null => {
+  const hex = value.trim().replace(/^#/, '');
+  return HEX_PATTERN.test(hex) ? `#${hex.toUpperCase()}` : null;
+};
+
+const decodeColorList = (value: string, separator: string): string[] | null => {
+  const colors = value.split(separator).filter(Boolean).map(decodeColor);
+  return colors.length > 0 && colors.every((c): c is string => c !== null) ? colors : null;
+};
+
+const parsePercent = (value: string | null): number | undefined => {
+  if (value === null) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(100, Math.max(0, Math.round(number))) : undefined;
+};
+
+/**
+ * Short, human-readable route with only the colors
+ * @example buildShortSharePath(['#4F46E5', '#7C3AED', '#EC4899']) // '/p/4F46E5-7C3AED-EC4899'
+ */
+export const buildShortSharePath = (colors: string[]): string =>
+  `${SHARE_ROUTE_PREFIX}${colors.map(encodeColor).join('-')}`;
+
+// Full route: the short path plus everything needed to restore the editor
+export const buildSharePath = (state: SharedPaletteState): string => {
+  const { palette } = state;
+  const params = new URLSearchParams();
+
+  if (palette.name) params.set('name', palette.name);
+  params.set('roles', ROLE_KEYS.map(key => encodeColor(palette[key])).join('-'));
+  if (state.schemeType) params.set('scheme', state.schemeType);
+  if (state.baseColor) params.set('base', encodeColor(state.baseColor));
+  if (state.reflectiveness !== undefined) params.set('refl', String(state.reflectiveness));
+  if (state.opacity !== undefined) params.set('opacity', String(state.opacity));
+
+  return `${buildShortSharePath(palette.colors)}?${params.toString()}`;
+};
+
+/**
+ * Reads a shared palette from a location
+ * @returns null when the path is not a share route, is not valid URI encoding or the colors are malformed
+ */
+export const parseSharePath = (pathname: string, search = ''): SharedPaletteState | null => {
+  if (!pathname.startsWith(SHARE_ROUTE_PREFIX)) return null;
+
+  let route: string;
+  try {
+    route = decodeURIComponent(pathname.slice(SHARE_ROUTE_PREFIX.length));
+  } catch {
+    // Malformed escapes such as '%E0%A4%A'
+    return null;
+  }
+
+  const colors = decodeColorList(route.replace(/\/$/, ''), '-');
+  if (!colors) return null;
+
+  const params = new URLSearchParams(search);
+  const roles = decodeColorList(params.get('roles') ?? '', '-');
+  const [primary, secondary, accent, background, text] = roles?.length === ROLE_KEYS.length
+    ? roles
+    : [colors[0], colors[1] ?? colors[0], colors[2] ?? colors[1] ?? colors[0], DEFAULT_BACKGROUND, DEFAULT_TEXT];
+
+  return {
+    palette: {
+      name: params.get('name') ?? 'Palette condivisa',
+      colors,
+      primary,
+      secondary,
+      accent,
+      background,
+      text,
+    },
+    schemeType: params.get('scheme') ?? undefined,
+    baseColor: decodeColor(params.get('base') ?? '') ?? undefined,
+    reflectiveness: parsePercent(params.get('refl')),
+    opacity: parsePercent(params.get('opacity')),
+  };
+};
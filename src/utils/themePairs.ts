@@ -0,0 +1,129 @@
+import type { ColorPalette, ThemeMode, ThemeRoles } from '../types';
+import { hexToOklch, oklchToHex } from './colorUtils';
+import { getContrastRatio, getRelativeLuminance, suggestPassingColor, WCAG_THRESHOLDS } from './contrast';
+
+export const THEME_ROLE_KEYS = ['primary', 'secondary', 'accent', 'background', 'text'] as const;
+
+export const themeModes: { value: ThemeMode; label: string }[] = [
+  { value: 'light', label: 'Chiaro' },
+  { value: 'dark', label: 'Scuro' },
+];
+
+type Band = readonly [min: number, max: number];
+type ForegroundRole = Exclude<keyof ThemeRoles, 'background'>;
+
+// OKLCH lightness ranges each kind of role lives in, per mode
+const LIGHTNESS_BANDS: Record<ThemeMode, { background: Band; text: Band; accent: Band }> = {
+  light: { background: [0.94, 1], text: [0.15, 0.32], accent: [0.4, 0.65] },
+  dark: { background: [0.17, 0.27], text: [0.9, 0.98], accent: [0.62, 0.85] },
+};
+
+// Dark surfaces stay close to neutral: a strong tint reads as a colored panel, not a background
+const DARK_BACKGROUND_MAX_CHROMA = 0.04;
+
+// Minimum contrast against the background: body text and non-text UI (WCAG 1.4.11)
+const REQUIRED_CONTRAST: Record<ForegroundRole, number> = {
+  text: WCAG_THRESHOLDS.aaNormal,
+  primary: WCAG_THRESHOLDS.aaLarge,
+  secondary: WCAG_THRESHOLDS.aaLarge,
+  accent: WCAG_THRESHOLDS.aaLarge,
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const themeRolesOf = (palette: ThemeRoles): ThemeRoles => ({
+  primary: palette.primary,
+  secondary: palette.secondary,
+  accent: palette.accent,
+  background: palette.background,
+  text: palette.text,
+});
+
+// A role set is "light" when its background is lighter than mid gray
+export const detectThemeMode = (roles: ThemeRoles): ThemeMode =>
+  getRelativeLuminance(roles.background) > 0.18 ? 'light' : 'dark';
+
+/**
+ * Mirrors a lightness from one band into the other: the end of the source band
+ * with the most contrast maps to the end of the target band with the most contrast
+ */
+const mirrorLightness = (l: number, from: Band, to: Band): number => {
+  const t = clamp((l - from[0]) / (from[1] - from[0]), 0, 1);
+  return to[1] - t * (to[1] - to[0]);
+};
+
+const remapRole = (hex: string, role: keyof ThemeRoles, from: ThemeMode, to: ThemeMode): string => {
+  const kind = role === 'background' || role === 'text' ? role : 'accent';
+  const { l, c, h } = hexToOklch(hex);
+  const chroma = role === 'background' && to === 'dark' ? Math.min(c, DARK_BACKGROUND_MAX_CHROMA) : c;
+  return oklchToHex({ l: mirrorLightness(l, LIGHTNESS_BANDS[from][kind], LIGHTNESS_BANDS[to][kind]), c: chroma, h });
+};
+
+/**
+ * Counterpart of a role set in the other mode. Lightness is remapped in OKLCH
+ * while hue (and chroma, within gamut) is kept, then every role that still
+ * misses its contrast target against the new background is nudged until it passes.
+ */
+export const deriveCounterpartTheme = (roles: ThemeRoles, from: ThemeMode = detectThemeMode(roles)): ThemeRoles => {
+  const to: ThemeMode = from === 'light' ? 'dark' : 'light';
+  const background = remapRole(roles.background, 'background', from, to);
+
+  const fit = (role: ForegroundRole): string => {
+    const remapped = remapRole(roles[role], role, from, to);
+    return suggestPassingColor(remapped, background, REQUIRED_CONTRAST[role]) ?? remapped;
+  };
+
+  return {
+    primary: fit('primary'),
+    secondary: fit('secondary'),
+    accent: fit('accent'),
+    background,
+    text: fit('text'),
+  };
+};
+
+/**
+ * Light and dark role sets for a palette: its own roles in the mode they
+ * belong to, plus the derived counterpart
+ */
+export const derivePairedThemes = (palette: ThemeRoles): Record<ThemeMode, ThemeRoles> => {
+  const roles = themeRolesOf(palette);
+  const mode = detectThemeMode(roles);
+  const counterpart = deriveCounterpartTheme(roles, mode);
+  return mode === 'light' ? { light: roles, dark: counterpart } : { light: counterpart, dark: roles };
+};
+
+export const samePairedThemes = (
+  a: Record<ThemeMode, ThemeRoles> | undefined,
+  b: Record<ThemeMode, ThemeRoles> | undefined
+): boolean =>
+  a === b || (!!a && !!b && themeModes.every(({ value }) =>
+    THEME_ROLE_KEYS.every(role => a[value][role] === b[value][role])));
+
+/**
+ * Re-derives stored themes after the inline roles changed. Themes whose own
+ * mode still matches the inline roles are kept, so a counterpart that was not
+ * derived here (e.g. a Material dark scheme) survives; palettes without themes
+ * are returned as-is.
+ */
+export const syncPairedThemes = (palette: ColorPalette): ColorPalette => {
+  if (!palette.themes) return palette;
+  const roles = themeRolesOf(palette);
+  const current = palette.themes[detectThemeMode(roles)];
+  if (THEME_ROLE_KEYS.every(role => current[role] === roles[role])) return palette;
+  return { ...palette, themes: derivePairedThemes(roles) };
+};
+
+export interface ThemeContrastCheck {
+  role: ForegroundRole;
+  ratio: number;
+  required: number;
+  passes: boolean;
+}
+
+// Contrast of every foreground role against the theme background
+export const checkThemeContrast = (roles: ThemeRoles): ThemeContrastCheck[] =>
+  (['text', 'primary', 'secondary', 'accent'] as const).map(role => {
+    const ratio = getContrastRatio(roles[role], roles.background);
+    return { role, ratio, required: REQUIRED_CONTRAST[role], passes: ratio >= REQUIRED_CONTRAST[role] };
+  });
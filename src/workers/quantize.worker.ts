@@ -0,0 +1,6 @@
+import { quantizePixels, type QuantizeRequest } from '../utils/quantize';
+
+// Runs color quantization off the main thread
+self.addEventListener('message', (event: MessageEvent<QuantizeRequest>) => {
+  self.postMessage(quantizePixels(event.data));
+});